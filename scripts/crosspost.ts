@@ -0,0 +1,209 @@
+#!/usr/bin/env node
+/**
+ * Cross-Posting Script
+ *
+ * Publishes blog posts to other platforms, keeps them up to date and
+ * checks whether they're in sync. Each platform is a provider in
+ * scripts/lib/crosspost/: DEV.to, Hashnode and Medium get the full
+ * article; Mastodon and Bluesky get an announcement linking to it.
+ *
+ * Usage:
+ *   npm run crosspost -- publish <post-slug> --to devto,hashnode
+ *   npm run crosspost -- update <post-slug>      # Push local changes
+ *   npm run crosspost -- unpublish <post-slug> --to devto
+ *   npm run crosspost -- status <post-slug>      # Compare with the remote copies
+ *   npm run publish:devto <post-slug>            # Shortcut for --to devto
+ *
+ * Options:
+ *   --to <names>  Comma-separated providers: devto, hashnode, medium,
+ *                 mastodon, bluesky. Required for publish; update,
+ *                 unpublish and status default to every platform the
+ *                 post's frontmatter records
+ *   --dry-run     Show what would be sent to each platform and the
+ *                 frontmatter change, as a diff with placeholder IDs,
+ *                 without sending or writing anything. No API keys needed
+ *                 except for status, which only reads.
+ *
+ * Each platform's state is written back to the post's `crosspost.<key>`
+ * frontmatter (`published`, `id`, `url`, `syncedAt`), keeping the rest of the file as
+ * it is. `update`, `unpublish` and `status` find the remote copy by that
+ * `id`. Not every platform supports every command: Medium can only
+ * publish, and Bluesky posts can't be updated.
+ *
+ * Environment variables:
+ *   DEVTO_API_KEY                              DEV.to (https://dev.to/settings/extensions)
+ *   HASHNODE_TOKEN, HASHNODE_PUBLICATION_ID    Hashnode (https://hashnode.com/settings/developer)
+ *   MEDIUM_TOKEN                               Medium integration token
+ *   MASTODON_URL, MASTODON_TOKEN               Mastodon instance and access token
+ *   BLUESKY_HANDLE, BLUESKY_APP_PASSWORD       Bluesky handle and app password
+ *   DEVTO_API_URL, HASHNODE_API_URL,           API base URLs, e.g. a local mock
+ *   MEDIUM_API_URL, BLUESKY_SERVICE            server for testing
+ *
+ * Example:
+ *   DEVTO_API_KEY=your_key npm run crosspost -- publish hello-world --to devto
+ */
+
+import type { CrosspostProviderKey } from '../src/lib/crosspost';
+import type { BlogPost, FrontmatterField } from './lib/blog';
+import { loadPost, writeFrontmatter } from './lib/blog';
+import { getOption, getPositionals, hasFlag } from './lib/cli';
+import type { CrosspostProvider } from './lib/crosspost';
+import { PROVIDERS, missingEnv, resolveProviders, stateFields } from './lib/crosspost';
+
+const COMMANDS = ['publish', 'update', 'unpublish', 'status'] as const;
+type Command = (typeof COMMANDS)[number];
+
+function printPreview(preview: unknown) {
+  for (const line of JSON.stringify(preview, null, 2).split('\n')) {
+    console.log(`   ${line}`);
+  }
+}
+
+/**
+ * Run one command against one platform. Returns the frontmatter to write,
+ * or throws if the platform failed. A dry run calls no API that changes
+ * anything and returns the frontmatter publishing would write, with
+ * placeholders for what only the platform knows.
+ */
+async function run(command: Command, provider: CrosspostProvider, post: BlogPost, dryRun: boolean): Promise<FrontmatterField[]> {
+  const { label } = provider;
+  const state = post.frontmatter.crosspost?.[provider.key];
+  const title = post.frontmatter.title;
+
+  if (command !== 'publish' && !provider[command]) {
+    console.log(`⚠️  ${label} doesn't support ${command} through its API, skipped`);
+    return [];
+  }
+  const missing = dryRun && command !== 'status' ? [] : missingEnv(provider);
+  if (missing.length > 0) {
+    throw new Error(`${missing.join(', ')} must be set`);
+  }
+
+  if (command === 'publish') {
+    if (state?.published || state?.id !== undefined) {
+      console.log(`⚠️  Already ${state.published ? 'published' : 'a draft'} on ${label}${state.url ? `: ${state.url}` : ''}`);
+      if (provider.update) console.log(`   To update, run: npm run crosspost -- update ${post.slug} --to ${provider.key.toLowerCase()}`);
+      return [];
+    }
+
+    if (dryRun) {
+      console.log(`📝 Would publish "${title}" to ${label} (dry run, nothing sent):`);
+      printPreview(provider.preview(post));
+      return stateFields(provider, { id: `<${label} ID>`, url: `<${label} URL>`, published: !post.frontmatter.draft });
+    }
+
+    console.log(`📝 Publishing "${title}" to ${label}...`);
+    const result = await provider.publish(post);
+    console.log(`✅ Published to ${label}${result.published ? '' : ' as a draft'}`);
+    console.log(`   ID: ${result.id}`);
+    console.log(`   URL: ${result.url}`);
+    return stateFields(provider, result);
+  }
+
+  if (!state) {
+    throw new Error(`Not on ${label} yet (no crosspost.${provider.key} frontmatter). Publish it first.`);
+  }
+
+  if (command === 'status' && provider.status) {
+    console.log(`🔎 Comparing "${title}" with ${label}...`);
+    const status = await provider.status(post, state);
+    console.log(`   URL: ${status.url}`);
+    console.log(`   Status: ${status.published ? 'Published' : 'Draft'}`);
+    if (status.differences.length === 0) {
+      console.log(`✅ ${label} is in sync with the local post`);
+    } else {
+      console.log(`⚠️  ${status.differences.length} difference(s) from the local post:`);
+      for (const difference of status.differences) {
+        console.log(`   ${difference}`);
+      }
+    }
+    return [];
+  }
+
+  const operation = command === 'update' ? provider.update : provider.unpublish;
+  if (!operation) return [];
+
+  if (dryRun) {
+    if (command === 'update') {
+      console.log(`📝 Would update "${title}" on ${label} (dry run, nothing sent):`);
+      printPreview(provider.preview(post));
+    } else {
+      console.log(`📝 Would unpublish "${title}" on ${label} (dry run, nothing sent)`);
+    }
+    return [];
+  }
+
+  console.log(`📝 ${command === 'update' ? 'Updating' : 'Unpublishing'} "${title}" on ${label}...`);
+  const result = await operation(post, state);
+  console.log(`✅ ${command === 'update' ? 'Updated' : 'Unpublished, kept as a draft'} on ${label}`);
+  console.log(`   URL: ${result.url}`);
+  return stateFields(provider, result);
+}
+
+/**
+ * The platforms a command runs on: `--to`, or for anything but publish,
+ * every platform the post's frontmatter records.
+ */
+function selectProviders(command: Command, post: BlogPost, to: string | undefined): CrosspostProvider[] {
+  if (to) return resolveProviders(to);
+  if (command === 'publish') {
+    throw new Error('Choose where to publish with --to, e.g. --to devto,hashnode');
+  }
+
+  const recorded = Object.keys(post.frontmatter.crosspost ?? {}) as CrosspostProviderKey[];
+  const providers = recorded.filter(key => key in PROVIDERS).map(key => PROVIDERS[key]);
+  if (providers.length === 0) {
+    throw new Error('The post has no crosspost frontmatter yet. Publish it first.');
+  }
+  return providers;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const positionals = getPositionals(args, ['to']);
+  const [command, slug] = (COMMANDS as readonly string[]).includes(positionals[0])
+    ? [positionals[0] as Command, positionals[1]]
+    : ['publish' as Command, positionals[0]];
+
+  if (!slug) {
+    console.error('Usage: npm run crosspost -- [publish|update|unpublish|status] <post-slug> [--to <names>] [--dry-run]');
+    console.error('Example: npm run crosspost -- publish hello-world --to devto,hashnode');
+    process.exit(1);
+  }
+
+  let post: BlogPost;
+  let providers: CrosspostProvider[];
+  try {
+    post = loadPost(slug);
+    providers = selectProviders(command, post, getOption(args, 'to'));
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const dryRun = hasFlag(args, 'dry-run');
+  const fields: FrontmatterField[] = [];
+  let failed = 0;
+  for (const provider of providers) {
+    try {
+      fields.push(...await run(command, provider, post, dryRun));
+    } catch (error) {
+      console.error(`❌ ${provider.label}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  // One write for every platform, so a dry run shows a single diff
+  if (fields.length > 0) {
+    console.log('');
+    writeFrontmatter(post, fields, dryRun);
+  }
+
+  if (failed > 0) {
+    console.error('');
+    console.error(`❌ ${failed} of ${providers.length} platform(s) failed`);
+    process.exit(1);
+  }
+}
+
+main();
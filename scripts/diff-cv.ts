@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+/**
+ * CV Diff
+ *
+ * Compares two versions of cv.json and reports what changed per entry
+ * rather than per line: "exp-1: achievement added", "skill 'Lit' moved
+ * from Frontend to Architecture", "edu-2: endDate changed". Reordering and
+ * reformatting are ignored.
+ *
+ * Each version is a file if the path exists, otherwise a git ref, read as
+ * `<ref>:src/data/cv.json`. Use `<ref>:<path>` for a file elsewhere in the
+ * repository.
+ *
+ * Usage:
+ *   npm run cv:diff -- <refA> [refB]
+ *
+ * Options:
+ *   --json  Print the changes as JSON
+ *
+ * Without refB, refA is compared with the working copy of cv.json.
+ *
+ * Examples:
+ *   npm run cv:diff -- HEAD                    # Uncommitted changes
+ *   npm run cv:diff -- HEAD~5 HEAD
+ *   npm run cv:diff -- main dist/cv-tailored.json
+ *   npm run --silent cv:diff -- v1.0 HEAD --json > changes.json
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { CVSource } from '../src/types/cv';
+import type { CVChange, CVSection } from '../src/lib/cv';
+import { CV_JSON_PATH, diffCV, loadCVSource, parseCVSource } from '../src/lib/cv';
+import { getPositionals, hasFlag } from './lib/cli';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const ROOT_DIR = path.join(__dirname, '..');
+
+const SECTION_TITLES: Record<CVSection, string> = {
+  personal: 'Personal',
+  summary: 'Summary',
+  keyAchievements: 'Key Achievements',
+  experience: 'Experience',
+  education: 'Education',
+  projects: 'Projects',
+  certifications: 'Certifications',
+  skills: 'Skills',
+  languages: 'Languages',
+};
+
+/**
+ * Read one version of the CV: a file on disk, or a file at a git ref.
+ */
+function readVersion(version: string): CVSource {
+  if (fs.existsSync(version)) return loadCVSource(path.resolve(version));
+
+  const spec = version.includes(':') ? version : `${version}:${path.relative(ROOT_DIR, CV_JSON_PATH)}`;
+  let json: string;
+  try {
+    json = execFileSync('git', ['show', spec], { cwd: ROOT_DIR, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`"${version}" is neither a file nor a git ref with a CV (${stderr || (error as Error).message})`);
+  }
+  return parseCVSource(JSON.parse(json));
+}
+
+function printChanges(changes: CVChange[], from: string, to: string) {
+  if (changes.length === 0) {
+    console.log(`✅ No changes between ${from} and ${to}`);
+    return;
+  }
+
+  console.log(`📝 ${changes.length} change(s) from ${from} to ${to}`);
+  for (const section of Object.keys(SECTION_TITLES) as CVSection[]) {
+    const inSection = changes.filter(change => change.section === section);
+    if (inSection.length === 0) continue;
+    console.log('');
+    console.log(SECTION_TITLES[section]);
+    for (const change of inSection) {
+      console.log(`   ${change.message}`);
+    }
+  }
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const [from, to] = getPositionals(args, []);
+
+  if (!from) {
+    console.error('Usage: npm run cv:diff -- <refA> [refB] [--json]');
+    process.exit(1);
+  }
+
+  const toLabel = to ?? 'working copy';
+  let changes: CVChange[];
+  try {
+    changes = diffCV(readVersion(from), to ? readVersion(to) : loadCVSource());
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  if (hasFlag(args, 'json')) {
+    process.stdout.write(JSON.stringify({ from, to: toLabel, changes }, null, 2) + '\n');
+  } else {
+    printChanges(changes, from, toLabel);
+  }
+}
+
+main();
@@ -0,0 +1,197 @@
+#!/usr/bin/env node
+/**
+ * CV ATS Export
+ *
+ * Exports CV JSON data as plain text for applicant tracking systems:
+ * standard section headings, no tables, glyphs or markup, and dates as
+ * MM/YYYY. With a job description it also reports which CV skills the
+ * posting mentions, which it doesn't, and where each match appears.
+ *
+ * Usage:
+ *   npm run --silent cv:ats                      # Output to stdout
+ *   npm run --silent cv:ats > cv.txt             # Save to file
+ *   npm run --silent cv:ats -- --jd job.txt > cv.txt
+ *   npm run --silent cv:ats -- --jd job.txt --report-only
+ *   npm run --silent cv:ats -- --locale pt
+ *
+ * Options:
+ *   --jd <file>       Job description to check keyword coverage against.
+ *                     The report goes to stderr so stdout stays clean.
+ *   --report-only     Print only the coverage report (to stdout)
+ *   --profile <name>  Profile from src/data/profiles.json, or comma-separated
+ *                     visibility tags (prefix with ! to exclude)
+ *   --include-hidden  Include all items regardless of visibility;
+ *                     --profile overrides still apply
+ *   --locale <lang>   Language, e.g. pt; untranslated fields stay English
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { CVData } from '../src/types/cv';
+import type { KeywordCoverage } from '../src/lib/cv';
+import { cvLabels, formatNumericDate, keywordCoverage, loadCV } from '../src/lib/cv';
+import { applyProfileArgs, getLocale, getOption, hasFlag } from './lib/cli';
+
+/**
+ * Replace typographic characters ATS parsers tend to mangle with plain
+ * ASCII equivalents.
+ */
+function plain(text: string): string {
+  return text
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[\u2022\u00B7\u2192]/g, '-')
+    .replace(/\u2026/g, '...')
+    .replace(/\u00A0/g, ' ');
+}
+
+function dateRange(start: string, end: string | null, locale: string): string {
+  return `${formatNumericDate(start, locale)} - ${formatNumericDate(end, locale)}`;
+}
+
+function exportToATS(cv: CVData, locale: string): string {
+  const labels = cvLabels(locale);
+  const lines: string[] = [];
+  const section = (heading: string) => {
+    if (lines.length > 0) lines.push('');
+    lines.push(heading.toUpperCase());
+  };
+
+  // Header
+  lines.push(cv.personal.name);
+  lines.push(cv.personal.title);
+  lines.push(cv.personal.location);
+  lines.push(`${labels.email}: ${cv.personal.email}`);
+  if (cv.personal.phone) lines.push(`${labels.phone}: ${cv.personal.phone}`);
+  if (cv.personal.website) lines.push(`${labels.website}: ${cv.personal.website}`);
+  if (cv.personal.linkedin) lines.push(`LinkedIn: ${cv.personal.linkedin}`);
+  if (cv.personal.github) lines.push(`GitHub: ${cv.personal.github}`);
+
+  section(labels.summary);
+  lines.push(cv.summary);
+
+  section(labels.workExperience);
+  cv.experience.forEach((exp, index) => {
+    if (index > 0) lines.push('');
+    lines.push(exp.title);
+    lines.push(`${exp.company}, ${exp.location}`);
+    lines.push(dateRange(exp.startDate, exp.endDate, locale));
+    lines.push(exp.description);
+    for (const achievement of exp.achievements) {
+      lines.push(`- ${achievement}`);
+    }
+    if (exp.skills.length > 0) lines.push(`${labels.skills}: ${exp.skills.join(', ')}`);
+  });
+
+  section(labels.education);
+  cv.education.forEach((edu, index) => {
+    if (index > 0) lines.push('');
+    lines.push(edu.degree);
+    lines.push(`${edu.institution}, ${edu.location}`);
+    lines.push(dateRange(edu.startDate, edu.endDate, locale));
+    if (edu.description) lines.push(edu.description);
+    for (const achievement of edu.achievements ?? []) {
+      lines.push(`- ${achievement}`);
+    }
+  });
+
+  section(labels.skills);
+  for (const category of cv.skills.technical) {
+    lines.push(`${category.category}: ${category.skills.join(', ')}`);
+  }
+  if (cv.skills.soft && cv.skills.soft.length > 0) {
+    lines.push(`${labels.softSkills}: ${cv.skills.soft.join(', ')}`);
+  }
+
+  if (cv.projects && cv.projects.length > 0) {
+    section(labels.projects);
+    cv.projects.forEach((proj, index) => {
+      if (index > 0) lines.push('');
+      lines.push(proj.name);
+      if (proj.startDate) lines.push(dateRange(proj.startDate, proj.endDate ?? null, locale));
+      lines.push(proj.description);
+      for (const highlight of proj.highlights) {
+        lines.push(`- ${highlight}`);
+      }
+      if (proj.url) lines.push(`URL: ${proj.url}`);
+      if (proj.github) lines.push(`GitHub: ${proj.github}`);
+      if (proj.technologies.length > 0) lines.push(`${labels.skills}: ${proj.technologies.join(', ')}`);
+    });
+  }
+
+  if (cv.certifications && cv.certifications.length > 0) {
+    section(labels.certifications);
+    for (const cert of cv.certifications) {
+      const details = [cert.issuer, formatNumericDate(cert.date, locale)];
+      if (cert.credentialId) details.push(`${labels.credentialId}: ${cert.credentialId}`);
+      lines.push(`${cert.name}, ${details.join(', ')}`);
+    }
+  }
+
+  if (cv.languages && cv.languages.length > 0) {
+    section(labels.languages);
+    for (const lang of cv.languages) {
+      lines.push(`${lang.name}: ${labels.proficiency[lang.proficiency]}`);
+    }
+  }
+
+  return plain(lines.join('\n')) + '\n';
+}
+
+function formatCoverage(coverage: KeywordCoverage, jdPath: string): string {
+  const total = coverage.matched.length + coverage.missing.length;
+  const lines: string[] = [];
+
+  lines.push(`🔎 Keyword coverage for ${jdPath}`);
+  lines.push(`   ${coverage.matched.length} of ${total} CV skills appear in the job description`);
+  lines.push('');
+
+  lines.push(`✅ Matched (${coverage.matched.length}):`);
+  for (const match of coverage.matched) {
+    lines.push(`   ${match.skill}`);
+    for (const location of match.locations) {
+      lines.push(`      ${location.label}`);
+    }
+  }
+  lines.push('');
+
+  lines.push(`⚠️  Not in job description (${coverage.missing.length}):`);
+  if (coverage.missing.length > 0) lines.push(`   ${coverage.missing.join(', ')}`);
+
+  return lines.join('\n') + '\n';
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const jdArg = getOption(args, 'jd');
+  const reportOnly = hasFlag(args, 'report-only');
+
+  if (reportOnly && !jdArg) {
+    process.stderr.write('Error: --report-only needs a job description (--jd <file>)\n');
+    process.exit(1);
+  }
+
+  let cvData: CVData;
+  let locale: string;
+  let jobDescription: string | undefined;
+  try {
+    locale = getLocale(args);
+    cvData = loadCV(undefined, locale);
+    cvData = applyProfileArgs(args, cvData, locale);
+    if (jdArg) jobDescription = fs.readFileSync(path.resolve(jdArg), 'utf-8');
+  } catch (error) {
+    // Write to stderr so it doesn't pollute stdout when piping
+    process.stderr.write(`Error: ${(error as Error).message}\n`);
+    process.exit(1);
+  }
+
+  if (!reportOnly) process.stdout.write(exportToATS(cvData, locale));
+
+  if (jdArg && jobDescription !== undefined) {
+    const report = formatCoverage(keywordCoverage(cvData, jobDescription), jdArg);
+    (reportOnly ? process.stdout : process.stderr).write(report);
+  }
+}
+
+main();
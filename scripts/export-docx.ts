@@ -0,0 +1,274 @@
+#!/usr/bin/env node
+/**
+ * CV DOCX Export
+ *
+ * Builds a styled Word document straight from CV JSON data - no Chrome
+ * needed. Uses real Word headings and bullet lists so applicant tracking
+ * systems can parse the structure, and the same colour palette as the
+ * PDF generators.
+ *
+ * Usage:
+ *   npm run cv:docx                              # Write dist/cv.docx
+ *   npm run cv:docx -- my-cv.docx                # Write to a custom path
+ *   npm run cv:docx -- --profile tech-lead
+ *   npm run cv:docx -- --locale pt                # Write dist/cv-pt.docx
+ *
+ * Options:
+ *   --profile <name>  Profile from src/data/profiles.json, or comma-separated
+ *                     visibility tags (prefix with ! to exclude)
+ *   --include-hidden  Include all items regardless of visibility;
+ *                     --profile overrides still apply
+ *   --locale <lang>   Language, e.g. pt; untranslated fields stay English
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  TextRun,
+} from 'docx';
+import type { CVData } from '../src/types/cv';
+import { cvLabels, formatDate, loadCV } from '../src/lib/cv';
+import { applyProfileArgs, getLocale, getPositionals, localizedFileName } from './lib/cli';
+import { COLORS } from './lib/colors';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DIST_DIR = path.join(__dirname, '..', 'dist');
+
+// docx expects hex colours without the leading '#'
+const color = (hex: string) => hex.replace('#', '');
+
+const FONT = 'Calibri';
+
+function sectionHeading(text: string): Paragraph {
+  return new Paragraph({ text, heading: HeadingLevel.HEADING_1 });
+}
+
+function entryHeading(title: string, subtitle?: string): Paragraph {
+  const children = [new TextRun(title)];
+  if (subtitle) {
+    children.push(new TextRun({ text: ` · ${subtitle}`, color: color(COLORS.copper) }));
+  }
+  return new Paragraph({ children, heading: HeadingLevel.HEADING_2 });
+}
+
+function meta(text: string): Paragraph {
+  return new Paragraph({
+    children: [new TextRun({ text, italics: true, size: 18, color: color(COLORS.graphite) })],
+    spacing: { after: 60 },
+  });
+}
+
+function body(text: string): Paragraph {
+  return new Paragraph({ text, spacing: { after: 80 } });
+}
+
+function bullet(text: string): Paragraph {
+  return new Paragraph({ text, bullet: { level: 0 }, spacing: { after: 40 } });
+}
+
+function labelled(label: string, text: string): Paragraph {
+  return new Paragraph({
+    children: [
+      new TextRun({ text: `${label}: `, bold: true, color: color(COLORS.copper) }),
+      new TextRun(text),
+    ],
+    spacing: { after: 60 },
+  });
+}
+
+function link(url: string): ExternalHyperlink {
+  return new ExternalHyperlink({
+    link: url,
+    children: [new TextRun({ text: url.replace(/^https?:\/\/(www\.)?/, ''), style: 'Hyperlink' })],
+  });
+}
+
+function buildDocument(cv: CVData, locale: string): Document {
+  const labels = cvLabels(locale);
+  const children: Paragraph[] = [];
+
+  // Header
+  children.push(new Paragraph({ text: cv.personal.name, heading: HeadingLevel.TITLE }));
+  children.push(new Paragraph({
+    children: [new TextRun({ text: cv.personal.title, size: 26, color: color(COLORS.copper) })],
+    spacing: { after: 80 },
+  }));
+
+  const contact = [cv.personal.location, cv.personal.email, cv.personal.phone].filter(
+    (item): item is string => Boolean(item),
+  );
+  const links = [cv.personal.website, cv.personal.linkedin, cv.personal.github].filter(
+    (item): item is string => Boolean(item),
+  );
+  children.push(new Paragraph({
+    children: [
+      new TextRun(contact.join(' | ')),
+      ...links.flatMap(url => [new TextRun(' | '), link(url)]),
+    ],
+    border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: color(COLORS.border), space: 6 } },
+    spacing: { after: 120 },
+  }));
+
+  // Summary
+  children.push(sectionHeading(labels.summary));
+  children.push(body(cv.summary));
+
+  // Experience
+  children.push(sectionHeading(labels.experience));
+  for (const exp of cv.experience) {
+    children.push(entryHeading(exp.title, exp.company));
+    children.push(meta(`${exp.location} | ${formatDate(exp.startDate, locale)} - ${formatDate(exp.endDate, locale)}`));
+    children.push(body(exp.description));
+    for (const achievement of exp.achievements) {
+      children.push(bullet(achievement));
+    }
+    if (exp.skills.length > 0) {
+      children.push(labelled(labels.technologies, exp.skills.join(', ')));
+    }
+  }
+
+  // Skills
+  children.push(sectionHeading(labels.skills));
+  for (const category of cv.skills.technical) {
+    children.push(labelled(category.category, category.skills.join(', ')));
+  }
+  if (cv.skills.soft && cv.skills.soft.length > 0) {
+    children.push(labelled(labels.softSkills, cv.skills.soft.join(', ')));
+  }
+
+  // Education
+  children.push(sectionHeading(labels.education));
+  for (const edu of cv.education) {
+    children.push(entryHeading(edu.degree));
+    children.push(meta(`${edu.institution}, ${edu.location} | ${formatDate(edu.startDate, locale)} - ${formatDate(edu.endDate, locale)}`));
+    if (edu.description) children.push(body(edu.description));
+    for (const achievement of edu.achievements ?? []) {
+      children.push(bullet(achievement));
+    }
+  }
+
+  // Projects (if any visible)
+  if (cv.projects && cv.projects.length > 0) {
+    children.push(sectionHeading(labels.projects));
+    for (const proj of cv.projects) {
+      children.push(entryHeading(proj.name));
+      if (proj.startDate) {
+        children.push(meta(`${formatDate(proj.startDate, locale)} - ${formatDate(proj.endDate ?? null, locale)}`));
+      }
+      children.push(body(proj.description));
+      for (const highlight of proj.highlights) {
+        children.push(bullet(highlight));
+      }
+      const projectLinks = [proj.url, proj.github].filter((url): url is string => Boolean(url));
+      if (projectLinks.length > 0) {
+        children.push(new Paragraph({
+          children: projectLinks.flatMap((url, index) => (index > 0 ? [new TextRun(' | '), link(url)] : [link(url)])),
+          spacing: { after: 60 },
+        }));
+      }
+      if (proj.technologies.length > 0) {
+        children.push(labelled(labels.technologies, proj.technologies.join(', ')));
+      }
+    }
+  }
+
+  // Certifications (if any visible)
+  if (cv.certifications && cv.certifications.length > 0) {
+    children.push(sectionHeading(labels.certifications));
+    for (const cert of cv.certifications) {
+      const details = [cert.issuer, formatDate(cert.date, locale)];
+      if (cert.credentialId) details.push(`${labels.credentialId}: ${cert.credentialId}`);
+      children.push(bullet(`${cert.name} - ${details.join(', ')}`));
+    }
+  }
+
+  // Languages
+  if (cv.languages && cv.languages.length > 0) {
+    children.push(sectionHeading(labels.languages));
+    children.push(body(cv.languages.map(lang => `${lang.name} (${labels.proficiency[lang.proficiency]})`).join(' · ')));
+  }
+
+  return new Document({
+    creator: cv.personal.name,
+    title: `${cv.personal.name} - CV`,
+    description: cv.personal.title,
+    styles: {
+      default: {
+        document: {
+          run: { font: FONT, size: 20, color: color(COLORS.graphite) },
+        },
+        title: {
+          run: { font: FONT, size: 40, bold: true, color: color(COLORS.ink) },
+          paragraph: { spacing: { after: 40 } },
+        },
+        heading1: {
+          run: { font: FONT, size: 24, bold: true, allCaps: true, color: color(COLORS.ink) },
+          paragraph: {
+            spacing: { before: 240, after: 100 },
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: color(COLORS.border), space: 2 } },
+          },
+        },
+        heading2: {
+          run: { font: FONT, size: 21, bold: true, color: color(COLORS.ink) },
+          paragraph: { spacing: { before: 160, after: 20 } },
+        },
+        hyperlink: {
+          run: { color: color(COLORS.copper), underline: {} },
+        },
+      },
+    },
+    sections: [{
+      properties: {
+        page: {
+          // 0.5in margins, in twentieths of a point
+          margin: { top: 720, right: 720, bottom: 720, left: 720 },
+        },
+      },
+      children,
+    }],
+  });
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const outputArg = getPositionals(args, ['profile', 'locale'])[0];
+
+  console.log('📝 Generating CV DOCX...');
+
+  let cv: CVData;
+  let locale: string;
+  try {
+    locale = getLocale(args);
+    cv = loadCV(undefined, locale);
+    cv = applyProfileArgs(args, cv, locale);
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+  const outputPath = outputArg ? path.resolve(outputArg) : path.join(DIST_DIR, localizedFileName('cv.docx', locale));
+
+  try {
+    const buffer = await Packer.toBuffer(buildDocument(cv, locale));
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, buffer);
+
+    const sizeKB = (buffer.length / 1024).toFixed(1);
+    console.log('✅ DOCX generated successfully!');
+    console.log(`   Output: ${outputPath}`);
+    console.log(`   Size: ${sizeKB} KB`);
+  } catch (error) {
+    console.error('❌ Error generating DOCX:', error);
+    process.exit(1);
+  }
+}
+
+main();
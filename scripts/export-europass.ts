@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+/**
+ * CV Europass Export
+ *
+ * Exports CV JSON data to Europass CV XML (SkillsPassport v3.4) for EU
+ * recruiters and job portals that accept Europass uploads.
+ *
+ * - Language proficiency is converted to CEFR levels (mother tongues are
+ *   listed separately, without levels)
+ * - Dates are written as gYear / gMonth attributes; a null endDate becomes
+ *   an ongoing period
+ * - The XML is validated offline before anything is written: by default
+ *   against scripts/schemas/europass-v3.4-subset.xsd, a hand-written
+ *   schema of what this exporter emits (a self-check, not proof of
+ *   Europass compatibility), or with --xsd against the official Cedefop
+ *   schema
+ *
+ * Usage:
+ *   npm run cv:europass                           # Write dist/cv-europass.xml
+ *   npm run cv:europass -- my-cv.xml              # Write to a custom path
+ *   npm run cv:europass -- --profile tech-lead
+ *   npm run cv:europass -- --locale pt            # Write dist/cv-europass-pt.xml
+ *   npm run cv:europass -- --xsd europass/EuropassSchema.xsd
+ *
+ * Options:
+ *   --profile <name>  Profile from src/data/profiles.json, or comma-separated
+ *                     visibility tags (prefix with ! to exclude)
+ *   --include-hidden  Include all items regardless of visibility;
+ *                     --profile overrides still apply
+ *   --locale <lang>   Language, e.g. pt; untranslated fields stay English
+ *   --xsd <file>      Schema to validate against instead, e.g. the official
+ *                     SkillsPassport v3.4 XSD from Cedefop; the other .xsd
+ *                     files next to it are loaded for its includes
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { validateXML } from 'xmllint-wasm';
+import { loadCV, toEuropassXML } from '../src/lib/cv';
+import type { CVData } from '../src/types/cv';
+import { applyProfileArgs, getLocale, getOption, getPositionals, localizedFileName } from './lib/cli';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_XSD_PATH = path.join(__dirname, 'schemas', 'europass-v3.4-subset.xsd');
+const DIST_DIR = path.join(__dirname, '..', 'dist');
+
+async function main() {
+  const args = process.argv.slice(2);
+  const outputArg = getPositionals(args, ['profile', 'locale', 'xsd'])[0];
+
+  console.log('🇪🇺 Generating Europass CV XML...');
+
+  let cv: CVData;
+  let locale: string;
+  try {
+    locale = getLocale(args);
+    cv = loadCV(undefined, locale);
+    cv = applyProfileArgs(args, cv, locale);
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+  const outputPath = outputArg
+    ? path.resolve(outputArg)
+    : path.join(DIST_DIR, localizedFileName('cv-europass.xml', locale));
+
+  const xsdPath = path.resolve(getOption(args, 'xsd') ?? DEFAULT_XSD_PATH);
+  if (!fs.existsSync(xsdPath)) {
+    console.error(`❌ Error: schema not found at ${xsdPath}`);
+    process.exit(1);
+  }
+  // The official schema is split over several files that include each other
+  const includes = fs.readdirSync(path.dirname(xsdPath))
+    .filter(file => file.endsWith('.xsd') && file !== path.basename(xsdPath))
+    .map(file => ({ fileName: file, contents: fs.readFileSync(path.join(path.dirname(xsdPath), file), 'utf-8') }));
+
+  const xml = toEuropassXML(cv, { locale });
+
+  const result = await validateXML({
+    xml: { fileName: path.basename(outputPath), contents: xml },
+    schema: { fileName: path.basename(xsdPath), contents: fs.readFileSync(xsdPath, 'utf-8') },
+    preload: includes,
+  });
+
+  if (!result.valid) {
+    console.error(`❌ Generated XML does not match ${path.relative(process.cwd(), xsdPath)}, nothing was written:`);
+    for (const error of result.errors) {
+      const line = error.loc ? `line ${error.loc.lineNumber}: ` : '';
+      console.error(`   ${line}${error.message}`);
+    }
+    process.exit(1);
+  }
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, xml);
+
+  const sizeKB = (Buffer.byteLength(xml) / 1024).toFixed(1);
+  console.log(`✅ Europass XML generated and validated against ${path.basename(xsdPath)}!`);
+  console.log(`   Output: ${outputPath}`);
+  console.log(`   Size: ${sizeKB} KB`);
+}
+
+main();
@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+/**
+ * CV LaTeX Export
+ *
+ * Exports CV JSON data to a moderncv LaTeX document for academic and
+ * conference applications. The output is plain text, so it can be diffed
+ * and reviewed like any other file; compiling it is optional.
+ *
+ * Usage:
+ *   npm run cv:latex                             # Write dist/cv.tex
+ *   npm run cv:latex -- my-cv.tex                # Write to a custom path
+ *   npm run cv:latex -- --profile tech-lead
+ *   npm run cv:latex -- --compile                # Also run pdflatex
+ *   npm run cv:latex -- --locale pt              # Write dist/cv-pt.tex
+ *
+ * Options:
+ *   --profile <name>  Profile from src/data/profiles.json, or comma-separated
+ *                     visibility tags (prefix with ! to exclude)
+ *   --include-hidden  Include all items regardless of visibility;
+ *                     --profile overrides still apply
+ *   --locale <lang>   Language, e.g. pt; untranslated fields stay English
+ *   --compile         Compile the .tex with pdflatex (needs a TeX
+ *                     distribution with the moderncv package)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { spawnSync } from 'child_process';
+import type { CVData } from '../src/types/cv';
+import { exportToLatex, loadCV } from '../src/lib/cv';
+import { applyProfileArgs, getLocale, getPositionals, hasFlag, localizedFileName } from './lib/cli';
+import { COLORS } from './lib/colors';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DIST_DIR = path.join(__dirname, '..', 'dist');
+
+function compile(texPath: string) {
+  console.log('   Compiling with pdflatex...');
+  const result = spawnSync(
+    'pdflatex',
+    ['-interaction=nonstopmode', '-halt-on-error', `-output-directory=${path.dirname(texPath)}`, texPath],
+    { stdio: ['ignore', 'ignore', 'inherit'] },
+  );
+
+  if (result.error) {
+    console.error('❌ Error: pdflatex not found. Install a TeX distribution with moderncv, or skip --compile.');
+    process.exit(1);
+  }
+  if (result.status !== 0) {
+    console.error(`❌ Error: pdflatex failed, see ${texPath.replace(/\.tex$/, '.log')}`);
+    process.exit(1);
+  }
+  console.log(`   PDF: ${texPath.replace(/\.tex$/, '.pdf')}`);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const outputArg = getPositionals(args, ['profile', 'locale'])[0];
+
+  console.log('📜 Generating CV LaTeX...');
+
+  let cv: CVData;
+  let locale: string;
+  try {
+    locale = getLocale(args);
+    cv = loadCV(undefined, locale);
+    cv = applyProfileArgs(args, cv, locale);
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+  const outputPath = outputArg ? path.resolve(outputArg) : path.join(DIST_DIR, localizedFileName('cv.tex', locale));
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, exportToLatex(cv, { locale, colors: { accent: COLORS.copper, secondary: COLORS.graphite } }));
+
+  console.log('✅ LaTeX generated successfully!');
+  console.log(`   Output: ${outputPath}`);
+
+  if (hasFlag(args, 'compile')) compile(outputPath);
+}
+
+main();
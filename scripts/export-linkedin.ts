@@ -9,6 +9,14 @@
  *   npm run cv:linkedin              # Output all sections
  *   npm run cv:linkedin summary      # Output only summary/about
  *   npm run cv:linkedin experience   # Output only experience
+ *   npm run cv:linkedin experience -- --profile tech-lead
+ *   npm run cv:linkedin -- --locale pt
+ *
+ * Options:
+ *   --profile <name>  Profile from src/data/profiles.json, or comma-separated
+ *                     visibility tags (prefix with ! to exclude)
+ *   --locale <lang>   Language, e.g. pt for a secondary-language profile;
+ *                     untranslated fields stay English
  *
  * LinkedIn character limits:
  *   - Headline: 220 characters
@@ -16,74 +24,10 @@
  *   - Experience description: 2,000 characters per role
  */
 
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-const CV_JSON_PATH = path.join(__dirname, '..', 'src', 'data', 'cv.json');
-
-interface CVData {
-  personal: {
-    name: string;
-    title: string;
-    email: string;
-    location: string;
-    linkedin?: string;
-    github?: string;
-  };
-  summary: string;
-  experience: Array<{
-    id: string;
-    title: string;
-    company: string;
-    location: string;
-    startDate: string;
-    endDate: string | null;
-    description: string;
-    achievements: string[];
-    skills: string[];
-    visibility?: string[];
-  }>;
-  skills: {
-    technical: Array<{
-      category: string;
-      skills: string[];
-    }>;
-    soft?: string[];
-  };
-  education: Array<{
-    id: string;
-    degree: string;
-    institution: string;
-    location: string;
-    startDate: string;
-    endDate: string | null;
-    description?: string;
-    visibility?: string[];
-  }>;
-  projects?: Array<{
-    id: string;
-    name: string;
-    description: string;
-    url?: string;
-    github?: string;
-    technologies: string[];
-    highlights: string[];
-    visibility?: string[];
-  }>;
-  languages?: Array<{
-    name: string;
-    proficiency: string;
-  }>;
-}
-
-function isVisible(item: { visibility?: string[] }): boolean {
-  if (!item.visibility) return true;
-  return item.visibility.includes('all');
-}
+import type { CVData } from '../src/types/cv';
+import type { CVLabels } from '../src/lib/cv';
+import { applyProfile, cvLabels, loadCV } from '../src/lib/cv';
+import { getLocale, getPositionals, getProfile } from './lib/cli';
 
 function truncateWithWarning(text: string, limit: number, label: string): string {
   if (text.length <= limit) return text;
@@ -100,13 +44,13 @@ function generateHeadline(cv: CVData): string {
   return truncateWithWarning(headline, 220, 'Headline');
 }
 
-function generateAbout(cv: CVData): string {
+function generateAbout(cv: CVData, labels: CVLabels): string {
   // LinkedIn About/Summary is 2,600 chars max
   const lines: string[] = [];
 
   lines.push(cv.summary);
   lines.push('');
-  lines.push('Core Expertise:');
+  lines.push(`${labels.expertise}:`);
 
   // Add key skills grouped
   const frontendSkills = cv.skills.technical.find(c => c.category === 'Frontend Engineering');
@@ -137,12 +81,10 @@ function generateAbout(cv: CVData): string {
   return truncateWithWarning(about, 2600, 'About section');
 }
 
-function generateExperience(cv: CVData): string {
+function generateExperience(cv: CVData, labels: CVLabels): string {
   const lines: string[] = [];
 
-  const visibleExperience = cv.experience.filter(exp => isVisible(exp));
-
-  for (const exp of visibleExperience) {
+  for (const exp of cv.experience) {
     lines.push('═'.repeat(50));
     lines.push(`${exp.title.toUpperCase()}`);
     lines.push(`${exp.company} • ${exp.location}`);
@@ -155,7 +97,7 @@ function generateExperience(cv: CVData): string {
     roleLines.push('');
 
     if (exp.achievements.length > 0) {
-      roleLines.push('Key Achievements:');
+      roleLines.push(`${labels.keyAchievements}:`);
       for (const achievement of exp.achievements) {
         roleLines.push(`• ${achievement}`);
       }
@@ -163,7 +105,7 @@ function generateExperience(cv: CVData): string {
 
     if (exp.skills.length > 0) {
       roleLines.push('');
-      roleLines.push(`Technologies: ${exp.skills.join(', ')}`);
+      roleLines.push(`${labels.technologies}: ${exp.skills.join(', ')}`);
     }
 
     const roleText = roleLines.join('\n');
@@ -196,19 +138,17 @@ function generateSkills(cv: CVData): string {
   return lines.join('\n');
 }
 
-function generateEducation(cv: CVData): string {
+function generateEducation(cv: CVData, labels: CVLabels): string {
   const lines: string[] = [];
 
-  const visibleEducation = cv.education.filter(edu => isVisible(edu));
-
   lines.push('EDUCATION');
   lines.push('═'.repeat(50));
 
-  for (const edu of visibleEducation) {
+  for (const edu of cv.education) {
     lines.push('');
     lines.push(`${edu.degree}`);
     lines.push(`${edu.institution}`);
-    lines.push(`${edu.startDate} - ${edu.endDate || 'Present'}`);
+    lines.push(`${edu.startDate} - ${edu.endDate || labels.present}`);
     if (edu.description) lines.push(edu.description);
   }
 
@@ -217,15 +157,20 @@ function generateEducation(cv: CVData): string {
 
 function main() {
   const args = process.argv.slice(2);
-  const section = args[0]?.toLowerCase();
-
-  if (!fs.existsSync(CV_JSON_PATH)) {
-    console.error('Error: CV JSON not found at', CV_JSON_PATH);
+  const section = getPositionals(args, ['profile', 'locale'])[0]?.toLowerCase();
+
+  let cvData: CVData;
+  let labels: CVLabels;
+  try {
+    const locale = getLocale(args);
+    const cv = loadCV(undefined, locale);
+    cvData = applyProfile(cv, getProfile(args, cv), locale);
+    labels = cvLabels(locale);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
     process.exit(1);
   }
 
-  const cvData: CVData = JSON.parse(fs.readFileSync(CV_JSON_PATH, 'utf-8'));
-
   console.log('╔══════════════════════════════════════════════════╗');
   console.log('║           LINKEDIN CV EXPORT                     ║');
   console.log('╚══════════════════════════════════════════════════╝');
@@ -241,13 +186,13 @@ function main() {
   if (!section || section === 'summary' || section === 'about') {
     console.log('ABOUT / SUMMARY (2,600 chars max)');
     console.log('═'.repeat(50));
-    console.log(generateAbout(cvData));
+    console.log(generateAbout(cvData, labels));
     console.log('');
   }
 
   if (!section || section === 'experience') {
     console.log('EXPERIENCE (2,000 chars per role)');
-    console.log(generateExperience(cvData));
+    console.log(generateExperience(cvData, labels));
   }
 
   if (!section || section === 'skills') {
@@ -256,7 +201,7 @@ function main() {
   }
 
   if (!section || section === 'education') {
-    console.log(generateEducation(cvData));
+    console.log(generateEducation(cvData, labels));
     console.log('');
   }
 
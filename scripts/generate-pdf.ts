@@ -2,615 +2,241 @@
 /**
  * CV PDF Generator
  *
- * Generates a PDF version of the CV page using Puppeteer.
- * Runs after Astro build to capture the fully rendered page.
+ * Renders the CV to PDF with Puppeteer from a dedicated print template
+ * (scripts/lib/print-template.ts) built directly from the CV data, so it
+ * doesn't depend on the markup of the /cv page and needs no Astro build.
  *
  * Usage:
  *   npm run generate:pdf
+ *   npm run generate:pdf -- --profile tech-lead
+ *   npm run generate:pdf -- --max-experience 8 --key-achievements
+ *   npm run generate:pdf -- --pages 2
+ *   npm run generate:pdf -- --preset letter
+ *   npm run generate:pdf -- --paper a4 --margin "8mm 10mm" --locale en-GB
+ *   npm run generate:pdf -- --locale pt
+ *   npm run generate:pdf -- --all
+ *
+ * Options:
+ *   --profile <name>        Profile from src/data/profiles.json, or
+ *                           comma-separated visibility tags
+ *   --max-experience <n>    Most recent roles to include (default: 6)
+ *   --key-achievements      Include the Key Achievements section
+ *                           (hidden by default)
+ *   --pages <n>             Page budget: drop the oldest roles, then the
+ *                           lowest-priority achievements, then tighten
+ *                           spacing and scale until the PDF fits
+ *   --preset <name>         Page setup preset from src/data/pdf.json
+ *                           (default: the "default" preset)
+ *   --config <file>         Read presets from another file
+ *   --paper <size>          Paper size: a4, letter, legal, ...
+ *   --margin <css>          Margins as CSS shorthand, e.g. "0.3in 0.4in"
+ *   --locale <locale>       Locale for dates, headings and content, e.g.
+ *                           en-GB or pt; untranslated fields stay English
+ *   --output <file>         Output path
+ *   --all                   Render the default CV, every profile and every
+ *                           visibility tag, with every preset, in every
+ *                           language cv.json has translations for, in one
+ *                           browser session
  *
  * Output:
- *   dist/cv.pdf
+ *   dist/cv.pdf, with -<profile>, -<preset> and -<language> suffixes for
+ *   --profile, --preset and non-English locales (e.g.
+ *   dist/cv-tech-lead-letter-pt.pdf), unless --output is given
  */
 
-import puppeteer from 'puppeteer-core';
+import type { Browser } from 'puppeteer-core';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import fs from 'fs';
-import { execSync } from 'child_process';
+import type { CVData, CVProfiles, CVSource } from '../src/types/cv';
+import {
+  DEFAULT_LOCALE,
+  applyProfile,
+  collectVisibilityTags,
+  languageOf,
+  loadCVSource,
+  loadProfiles,
+  localizeCV,
+  resolveProfile,
+  translationLocales,
+} from '../src/lib/cv';
+import { withBrowser } from './lib/browser';
+import { getOption, hasFlag } from './lib/cli';
+import { fitToPages, printFitAdapter, printFitReport } from './lib/page-fit';
+import type { PdfSettings } from './lib/pdf-config';
+import { getPdfConfig, getPdfSettings, parseMargin } from './lib/pdf-config';
+import { checkPdf, cvMetadata, printPdfCheck, writeMetadata } from './lib/pdf-metadata';
+import type { PrintOptions } from './lib/print-template';
+import { DEFAULT_PRINT_OPTIONS } from './lib/print-template';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const DIST_DIR = path.join(__dirname, '..', 'dist');
-const CV_HTML_PATH = path.join(DIST_DIR, 'cv', 'index.html');
-const OUTPUT_PDF_PATH = path.join(DIST_DIR, 'cv.pdf');
+
+/** One PDF to render */
+interface PdfJob {
+  cv: CVData;
+  /** Profile name or visibility tags, if any */
+  profile?: string;
+  settings: PdfSettings & { preset?: string };
+  outputPath: string;
+}
 
 /**
- * Find Chrome/Chromium executable path
+ * The job for one profile and preset. `language` replaces the preset's
+ * locale unless the two already agree, e.g. "en" keeps an "en-GB" preset.
  */
-function findChromePath(): string {
-  // Check environment variable first (for CI)
-  if (process.env.CHROME_PATH) {
-    return process.env.CHROME_PATH;
-  }
-
-  const platform = process.platform;
-
-  // Common Chrome paths by platform
-  const paths: Record<string, string[]> = {
-    darwin: [
-      '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
-      '/Applications/Chromium.app/Contents/MacOS/Chromium',
-      '/Applications/Google Chrome Canary.app/Contents/MacOS/Google Chrome Canary',
-    ],
-    linux: [
-      '/usr/bin/google-chrome',
-      '/usr/bin/google-chrome-stable',
-      '/usr/bin/chromium',
-      '/usr/bin/chromium-browser',
-      '/snap/bin/chromium',
-    ],
-    win32: [
-      'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
-      'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe',
-      process.env.LOCALAPPDATA + '\\Google\\Chrome\\Application\\chrome.exe',
-    ],
+function createJob(
+  args: string[],
+  source: CVSource,
+  profiles: CVProfiles,
+  profile?: string,
+  preset?: string,
+  language?: string,
+): PdfJob {
+  const settings = getPdfSettings(args, preset);
+  if (language && languageOf(settings.locale) !== language) settings.locale = language;
+
+  const contentLanguage = languageOf(settings.locale);
+  const name = ['cv', profile, settings.preset !== 'default' && settings.preset, contentLanguage !== DEFAULT_LOCALE && contentLanguage];
+  const outputPath = settings.output
+    ? path.resolve(settings.output)
+    : path.join(DIST_DIR, `${name.filter(Boolean).join('-')}.pdf`);
+  return {
+    cv: applyProfile(localizeCV(source, settings.locale), resolveProfile(profile, profiles), settings.locale),
+    profile,
+    settings,
+    outputPath,
   };
+}
 
-  const platformPaths = paths[platform] || [];
+/**
+ * The PDFs for this run: the one selected by the flags, or with --all the
+ * default CV, every profile and every visibility tag, each with every
+ * preset, in every language.
+ */
+function createJobs(args: string[]): PdfJob[] {
+  const source = loadCVSource();
+  const profiles = loadProfiles(undefined, localizeCV(source));
 
-  for (const chromePath of platformPaths) {
-    if (chromePath && fs.existsSync(chromePath)) {
-      return chromePath;
-    }
+  if (!hasFlag(args, 'all')) {
+    return [createJob(args, source, profiles, getOption(args, 'profile'))];
   }
 
-  // Try to find via 'which' command on Unix
-  if (platform !== 'win32') {
-    try {
-      const result = execSync('which google-chrome || which chromium || which chromium-browser', {
-        encoding: 'utf-8',
-        stdio: ['pipe', 'pipe', 'pipe'],
-      }).trim();
-      if (result) return result;
-    } catch {
-      // Ignore errors
+  for (const name of ['profile', 'preset', 'locale', 'output']) {
+    if (getOption(args, name) !== undefined) throw new Error(`--${name} can't be combined with --all`);
+  }
+  const config = getPdfConfig(args);
+  // Every variant of a preset would be written to the same file
+  for (const [preset, settings] of Object.entries(config)) {
+    if (settings.output) throw new Error(`Preset "${preset}" sets "output", which can't be used with --all`);
+  }
+  const presets = Object.keys(config);
+  const languages = [...new Set(translationLocales(source).map(languageOf))];
+  const jobs: PdfJob[] = [];
+  // The same variants the build has pages for, so every /cv/<profile>/ page
+  // links PDFs that exist
+  const variants = new Set([...Object.keys(profiles), ...collectVisibilityTags(localizeCV(source))]);
+  for (const profile of [undefined, ...variants]) {
+    for (const preset of presets.length > 0 ? presets : [undefined]) {
+      for (const language of languages) {
+        jobs.push(createJob(args, source, profiles, profile, preset, language));
+      }
     }
   }
-
-  throw new Error(
-    'Chrome/Chromium not found. Please install Chrome or set CHROME_PATH environment variable.'
-  );
+  return jobs;
 }
 
-async function generatePDF() {
-  console.log('📄 Generating CV PDF...');
-
-  // Verify the CV HTML exists
-  if (!fs.existsSync(CV_HTML_PATH)) {
-    console.error('❌ Error: CV HTML not found. Run "npm run build" first.');
-    console.error(`   Expected: ${CV_HTML_PATH}`);
-    process.exit(1);
-  }
-
-  const chromePath = findChromePath();
-  console.log(`   Using Chrome: ${chromePath}`);
+/**
+ * Render one PDF in its own tab. Returns whether it was written and passed
+ * the metadata check.
+ */
+async function renderJob(browser: Browser, job: PdfJob, options: PrintOptions, pages?: number): Promise<boolean> {
+  const { cv, settings, outputPath } = job;
+  const maxExperience = options.maxExperience ?? DEFAULT_PRINT_OPTIONS.maxExperience;
 
-  const browser = await puppeteer.launch({
-    executablePath: chromePath,
-    headless: true,
-    args: [
-      '--no-sandbox',
-      '--disable-setuid-sandbox',
-      '--disable-dev-shm-usage',
-      '--font-render-hinting=none',
-      '--disable-gpu',
-    ],
-  });
+  console.log('');
+  console.log(`📄 ${path.relative(process.cwd(), outputPath)}`);
+  console.log(`   CV: ${cv.personal.name}${job.profile ? ` (${job.profile})` : ''}, ${Math.min(cv.experience.length, maxExperience)} of ${cv.experience.length} roles`);
+  console.log(`   Page: ${settings.paper.toUpperCase()}, margins ${settings.margin}, locale ${settings.locale}`);
 
+  const page = await browser.newPage();
   try {
-    const page = await browser.newPage();
-
-    // Load the local HTML file
-    const fileUrl = `file://${CV_HTML_PATH}`;
-    console.log(`   Loading: ${fileUrl}`);
-
-    await page.goto(fileUrl, {
-      waitUntil: 'networkidle0',
-      timeout: 30000,
-    });
-
-    // Wait for fonts to load
-    await page.evaluateHandle('document.fonts.ready');
-
-    // Emulate print media AFTER page load to trigger @media print CSS rules
-    await page.emulateMediaType('print');
-
-    // Force apply PDF-optimized styles via JavaScript
-    await page.evaluate(() => {
-      // === COLOR PALETTE (from tailwind.config.mjs) ===
-      const COLORS = {
-        ink: '#1A1A1A',       // Primary text, headings
-        graphite: '#4B4B4B',  // Secondary text, body
-        copper: '#B36B47',    // Accent color, highlights
-        beige: '#F4EFE6',     // Background
-        border: '#E5E5E5',    // Subtle borders
-      };
-
-      // Force hide elements that should be hidden in print
-      const hideSelectors = [
-        'body > header',
-        'body > footer',
-        'header nav',
-        'footer',
-        'nav',
-        'a[download]',
-        '.container-narrow > div:last-child', // download/print buttons
-        '.container-narrow > section:nth-of-type(2)', // Key Achievements
-      ];
-
-      hideSelectors.forEach(selector => {
-        document.querySelectorAll(selector).forEach(el => {
-          (el as HTMLElement).style.display = 'none';
-        });
-      });
-
-      // Hide older experience entries (keep only 6)
-      document.querySelectorAll('.container-narrow > section:nth-of-type(3) article:nth-of-type(n+7)').forEach(el => {
-        (el as HTMLElement).style.display = 'none';
-      });
-
-      // Force SVG icon sizes
-      document.querySelectorAll('svg').forEach(el => {
-        el.style.width = '0.75rem';
-        el.style.height = '0.75rem';
-        el.style.minWidth = '0.75rem';
-        el.style.minHeight = '0.75rem';
-      });
-
-      // === HEADER IMPROVEMENTS ===
-      // Make header more compact and inline
-      const header = document.querySelector('.container-narrow > header') as HTMLElement;
-      if (header) {
-        header.style.marginBottom = '0.75rem';
-        header.style.paddingBottom = '0.5rem';
-      }
-
-      // Compact the name
-      const h1 = header?.querySelector('h1') as HTMLElement;
-      if (h1) {
-        h1.style.fontSize = '1.75rem';
-        h1.style.marginBottom = '0.25rem';
-      }
-
-      // Compact the title
-      const title = header?.querySelector('p.text-xl, p.text-2xl') as HTMLElement;
-      if (title) {
-        title.style.fontSize = '1rem';
-        title.style.marginBottom = '0.5rem';
-      }
-
-      // Make contact info more compact - inline style
-      const contactRow = header?.querySelector('.flex.flex-wrap.gap-4') as HTMLElement;
-      if (contactRow) {
-        contactRow.style.gap = '0.75rem';
-        contactRow.style.fontSize = '0.8rem';
-
-        // Fix icon alignment in each contact item
-        contactRow.querySelectorAll('.flex.items-center').forEach(item => {
-          const el = item as HTMLElement;
-          el.style.display = 'inline-flex';
-          el.style.alignItems = 'center';
-          el.style.gap = '0.25rem';
-
-          // Ensure SVG icons are properly sized and aligned
-          const svg = el.querySelector('svg') as SVGElement;
-          if (svg) {
-            svg.style.width = '0.85rem';
-            svg.style.height = '0.85rem';
-            svg.style.minWidth = '0.85rem';
-            svg.style.minHeight = '0.85rem';
-            svg.style.flexShrink = '0';
-            svg.style.verticalAlign = 'middle';
-          }
-        });
-      }
-
-      // === HIDE DURATION (recruiters can do the math) ===
-      document.querySelectorAll('.text-xs').forEach(el => {
-        // Hide the duration line (e.g., "2 years, 3 months")
-        if ((el as HTMLElement).textContent?.includes('month') || (el as HTMLElement).textContent?.includes('year')) {
-          (el as HTMLElement).style.display = 'none';
-        }
-      });
-
-      // === SKILLS SECTION - Condensed with merged categories ===
-      const skillsSection = document.querySelector('.container-narrow > section:nth-of-type(4)') as HTMLElement;
-      if (skillsSection) {
-        // Get all skill categories
-        const skillGroups = skillsSection.querySelector('.space-y-6') as HTMLElement;
-        if (skillGroups) {
-          // Extract skills by category
-          const categories: { name: string; skills: string[] }[] = [];
-          skillGroups.querySelectorAll(':scope > div').forEach(div => {
-            const h3 = div.querySelector('h3');
-            const categoryName = h3?.textContent || '';
-            const skills: string[] = [];
-            div.querySelectorAll('span').forEach(span => {
-              if (span.textContent) skills.push(span.textContent.trim());
-            });
-            categories.push({ name: categoryName, skills });
-          });
-
-          // Merge related categories
-          const mergedCategories: { name: string; skills: string[] }[] = [];
-
-          // Frontend + State Management + Architecture
-          const frontendSkills = categories
-            .filter(c => ['Frontend Engineering', 'State Management & Data', 'Architecture & Performance'].includes(c.name))
-            .flatMap(c => c.skills);
-          if (frontendSkills.length) mergedCategories.push({ name: 'Frontend', skills: frontendSkills });
-
-          // Testing
-          const testingSkills = categories.find(c => c.name === 'Testing & Quality')?.skills || [];
-          if (testingSkills.length) mergedCategories.push({ name: 'Testing', skills: testingSkills });
-
-          // DevOps + Cloud
-          const devopsSkills = categories
-            .filter(c => ['DevOps & Tools', 'Cloud & Monitoring'].includes(c.name))
-            .flatMap(c => c.skills);
-          if (devopsSkills.length) mergedCategories.push({ name: 'DevOps & Cloud', skills: devopsSkills });
-
-          // Leadership + Emerging Tech
-          const leadershipSkills = categories
-            .filter(c => ['Leadership & Collaboration', 'Emerging Tech'].includes(c.name))
-            .flatMap(c => c.skills);
-          if (leadershipSkills.length) mergedCategories.push({ name: 'Leadership & Other', skills: leadershipSkills });
-
-          // Create new compact HTML
-          const newContent = mergedCategories.map(cat =>
-            `<div style="margin-bottom: 0.3rem;">
-              <strong style="font-size: 0.8rem; color: ${COLORS.copper};">${cat.name}:</strong>
-              <span style="font-size: 0.75rem; color: ${COLORS.graphite};"> ${cat.skills.join(', ')}</span>
-            </div>`
-          ).join('');
-
-          skillGroups.innerHTML = newContent;
-          skillGroups.style.display = 'block';
-        }
-
-        // Handle soft skills separately - convert to inline
-        const softSkillsDiv = skillsSection.querySelector('.space-y-6 + div, div:last-child') as HTMLElement;
-        if (softSkillsDiv && softSkillsDiv.querySelector('h3')?.textContent?.includes('Soft')) {
-          const softSkills: string[] = [];
-          softSkillsDiv.querySelectorAll('span').forEach(span => {
-            if (span.textContent) softSkills.push(span.textContent.trim());
-          });
-          if (softSkills.length) {
-            softSkillsDiv.innerHTML = `
-              <div style="margin-bottom: 0.3rem;">
-                <strong style="font-size: 0.8rem; color: ${COLORS.copper};">Soft Skills:</strong>
-                <span style="font-size: 0.75rem; color: ${COLORS.graphite};"> ${softSkills.join(', ')}</span>
-              </div>
-            `;
-          }
-        }
-      }
-
-      // === EXPERIENCE SECTION - Tighter spacing ===
-      const experienceSection = document.querySelector('.container-narrow > section:nth-of-type(3)') as HTMLElement;
-      if (experienceSection) {
-        // Reduce space between experience entries
-        const spaceY12 = experienceSection.querySelector('.space-y-12') as HTMLElement;
-        if (spaceY12) {
-          spaceY12.style.gap = '0';
-          spaceY12.querySelectorAll('article').forEach(article => {
-            (article as HTMLElement).style.marginBottom = '0.6rem';
-            (article as HTMLElement).style.paddingBottom = '0.4rem';
-            (article as HTMLElement).style.borderBottom = `1px solid ${COLORS.border}`;
-          });
-        }
-
-        // Tighter header row (title + company + dates)
-        experienceSection.querySelectorAll('article').forEach(article => {
-          // Make title/company row more compact
-          const headerDiv = article.querySelector('.flex.flex-col.md\\:flex-row') as HTMLElement;
-          if (headerDiv) {
-            headerDiv.style.marginBottom = '0.15rem';
-            headerDiv.style.gap = '0.25rem';
-          }
-
-          // Job title
-          const jobTitle = article.querySelector('h3') as HTMLElement;
-          if (jobTitle) {
-            jobTitle.style.fontSize = '0.95rem';
-            jobTitle.style.marginBottom = '0';
-            jobTitle.style.lineHeight = '1.2';
-          }
-
-          // Company line
-          const companyLine = article.querySelector('p.text-copper') as HTMLElement;
-          if (companyLine) {
-            companyLine.style.fontSize = '0.8rem';
-            companyLine.style.marginBottom = '0';
-          }
-
-          // Date line
-          const dateDiv = article.querySelector('.text-graphite.text-sm') as HTMLElement;
-          if (dateDiv) {
-            dateDiv.style.fontSize = '0.75rem';
-            dateDiv.style.whiteSpace = 'nowrap';
-          }
-
-          // Description paragraph - make it tighter
-          const desc = article.querySelector('p.text-graphite.mb-4') as HTMLElement;
-          if (desc) {
-            desc.style.fontSize = '0.8rem';
-            desc.style.marginBottom = '0.15rem';
-            desc.style.marginTop = '0.1rem';
-            desc.style.lineHeight = '1.3';
-          }
-        });
-
-        // Tighter achievement lists
-        experienceSection.querySelectorAll('ul').forEach(ul => {
-          (ul as HTMLElement).style.marginTop = '0.1rem';
-          (ul as HTMLElement).style.marginBottom = '0.15rem';
-          (ul as HTMLElement).style.paddingLeft = '1rem';
-        });
-
-        experienceSection.querySelectorAll('li').forEach(li => {
-          (li as HTMLElement).style.marginBottom = '0.05rem';
-          (li as HTMLElement).style.fontSize = '0.8rem';
-          (li as HTMLElement).style.lineHeight = '1.3';
-        });
-
-        // Convert skill pills to comma-separated list
-        experienceSection.querySelectorAll('.flex.flex-wrap.gap-2').forEach(container => {
-          const skills: string[] = [];
-          container.querySelectorAll('span').forEach(span => {
-            if (span.textContent) skills.push(span.textContent.trim());
-          });
-
-          if (skills.length) {
-            (container as HTMLElement).innerHTML = `
-              <span style="font-size: 0.7rem; color: ${COLORS.graphite}; font-style: italic;">${skills.join(', ')}</span>
-            `;
-            (container as HTMLElement).style.display = 'block';
-            (container as HTMLElement).style.marginTop = '0.1rem';
-          }
-        });
-      }
-
-      // === SECTION HEADERS - Smaller ===
-      document.querySelectorAll('.container-narrow > section > h2').forEach(h2 => {
-        (h2 as HTMLElement).style.fontSize = '1.1rem';
-        (h2 as HTMLElement).style.marginBottom = '0.5rem';
-        (h2 as HTMLElement).style.paddingBottom = '0.25rem';
-      });
-
-      // === LANGUAGES SECTION - Inline comma-separated ===
-      // Languages is after Skills (5th section when Key Achievements is hidden)
-      const languagesSection = document.querySelector('.container-narrow > section:last-of-type') as HTMLElement;
-      if (languagesSection && languagesSection.querySelector('h2')?.textContent?.includes('Languages')) {
-        const langGrid = languagesSection.querySelector('.grid') as HTMLElement;
-        if (langGrid) {
-          // Extract languages
-          const languages: string[] = [];
-          langGrid.querySelectorAll(':scope > div').forEach(div => {
-            const name = div.querySelector('p.font-medium')?.textContent?.trim() || '';
-            const proficiency = div.querySelector('p.text-sm')?.textContent?.trim() || '';
-            if (name) languages.push(`${name} (${proficiency})`);
-          });
-
-          // Replace with inline format
-          if (languages.length) {
-            langGrid.innerHTML = `
-              <span style="font-size: 0.8rem; color: ${COLORS.graphite};">${languages.join(' · ')}</span>
-            `;
-            langGrid.style.display = 'block';
-          }
-        }
-        // Reduce section spacing
-        languagesSection.style.marginBottom = '0.5rem';
-        const langH2 = languagesSection.querySelector('h2') as HTMLElement;
-        if (langH2) {
-          langH2.style.marginBottom = '0.3rem';
-        }
-      }
-
-      // === EDUCATION SECTION - Tighter spacing ===
-      // Education is typically the 4th section (after Experience and Skills)
-      document.querySelectorAll('.container-narrow > section').forEach(section => {
-        const h2 = section.querySelector('h2');
-        if (h2?.textContent?.includes('Education')) {
-          const eduSection = section as HTMLElement;
-
-          // Reduce space between education entries
-          const spaceY8 = eduSection.querySelector('.space-y-8') as HTMLElement;
-          if (spaceY8) {
-            spaceY8.style.gap = '0';
-            spaceY8.querySelectorAll('article').forEach(article => {
-              (article as HTMLElement).style.marginBottom = '0.5rem';
-              (article as HTMLElement).style.paddingBottom = '0.3rem';
-              (article as HTMLElement).style.borderBottom = `1px solid ${COLORS.border}`;
-            });
-          }
-
-          // Tighter header row - only show name, institution, and dates
-          eduSection.querySelectorAll('article').forEach(article => {
-            const headerDiv = article.querySelector('.flex.flex-col.md\\:flex-row') as HTMLElement;
-            if (headerDiv) {
-              headerDiv.style.marginBottom = '0';
-              headerDiv.style.gap = '0.2rem';
-            }
-
-            // Degree title
-            const degreeTitle = article.querySelector('h3') as HTMLElement;
-            if (degreeTitle) {
-              degreeTitle.style.fontSize = '0.85rem';
-              degreeTitle.style.marginBottom = '0';
-              degreeTitle.style.lineHeight = '1.2';
-            }
-
-            // Institution line
-            const instLine = article.querySelector('p.text-copper') as HTMLElement;
-            if (instLine) {
-              instLine.style.fontSize = '0.75rem';
-              instLine.style.marginBottom = '0';
-            }
-
-            // Date line
-            const dateDiv = article.querySelector('.text-graphite.text-sm') as HTMLElement;
-            if (dateDiv) {
-              dateDiv.style.fontSize = '0.7rem';
-            }
-
-            // Hide description
-            const desc = article.querySelector('p.text-graphite.mb-4') as HTMLElement;
-            if (desc) {
-              desc.style.display = 'none';
-            }
-
-            // Hide achievement lists
-            article.querySelectorAll('ul').forEach(ul => {
-              (ul as HTMLElement).style.display = 'none';
-            });
-          });
-        }
-      });
-
-      // === HEADER LINKS - Plain text URLs for print ===
-      const headerContactRow = document.querySelector('.container-narrow > header .flex.flex-wrap.gap-4') as HTMLElement;
-      if (headerContactRow) {
-        // Find and update email link
-        const emailLink = headerContactRow.querySelector('a[href^="mailto:"]') as HTMLAnchorElement;
-        if (emailLink) {
-          const email = emailLink.href.replace('mailto:', '');
-          emailLink.style.color = COLORS.graphite;
-          emailLink.style.textDecoration = 'none';
-          // Show actual email
-          const emailSpan = emailLink.querySelector('span');
-          if (emailSpan) emailSpan.textContent = email;
-        }
-
-        // Find and update LinkedIn link
-        const linkedinLink = headerContactRow.querySelector('a[href*="linkedin"]') as HTMLAnchorElement;
-        if (linkedinLink) {
-          linkedinLink.style.color = COLORS.graphite;
-          linkedinLink.style.textDecoration = 'none';
-          const linkedinSpan = linkedinLink.querySelector('span');
-          if (linkedinSpan) {
-            // Extract username from URL (e.g., linkedin.com/in/brunocamarneiro)
-            const url = new URL(linkedinLink.href);
-            linkedinSpan.textContent = `linkedin.com${url.pathname}`;
-          }
-        }
-
-        // Find and update GitHub link
-        const githubLink = headerContactRow.querySelector('a[href*="github"]') as HTMLAnchorElement;
-        if (githubLink) {
-          githubLink.style.color = COLORS.graphite;
-          githubLink.style.textDecoration = 'none';
-          const githubSpan = githubLink.querySelector('span');
-          if (githubSpan) {
-            // Extract username from URL (e.g., github.com/bcamarneiro)
-            const url = new URL(githubLink.href);
-            githubSpan.textContent = `github.com${url.pathname}`;
-          }
-        }
-      }
-
-      // === GENERAL SPACING ===
-      document.querySelectorAll('.mb-16').forEach(el => {
-        (el as HTMLElement).style.marginBottom = '0.75rem';
-      });
-
-      document.querySelectorAll('.mb-12').forEach(el => {
-        (el as HTMLElement).style.marginBottom = '0.5rem';
-      });
-
-      // Tighter paragraph spacing
-      document.querySelectorAll('.container-narrow p').forEach(p => {
-        (p as HTMLElement).style.marginBottom = '0.25rem';
-        (p as HTMLElement).style.fontSize = '0.85rem';
-        (p as HTMLElement).style.lineHeight = '1.4';
-      });
-
-      // === ENSURE CONSISTENT COLORS THROUGHOUT ===
-      // Main headings (h1) - ink color
-      document.querySelectorAll('h1').forEach(h1 => {
-        (h1 as HTMLElement).style.color = COLORS.ink;
-      });
-
-      // Section headers (h2) - ink color
-      document.querySelectorAll('h2').forEach(h2 => {
-        (h2 as HTMLElement).style.color = COLORS.ink;
-      });
+    const result = await fitToPages(page, printFitAdapter(cv, { ...options, locale: settings.locale }), {
+      format: settings.paper,
+      margin: parseMargin(settings.margin),
+      printBackground: true,
+      displayHeaderFooter: false,
+      tagged: true,
+      outline: true,
+    }, pages);
 
-      // Job/education titles (h3) - ink color
-      document.querySelectorAll('h3').forEach(h3 => {
-        (h3 as HTMLElement).style.color = COLORS.ink;
-      });
+    const metadata = cvMetadata(cv, result.html, settings.locale);
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, await writeMetadata(result.pdf, metadata));
+    if (pages !== undefined) printFitReport(result, pages);
 
-      // Copper accent text (company names, institution names, etc.)
-      document.querySelectorAll('.text-copper').forEach(el => {
-        (el as HTMLElement).style.color = COLORS.copper;
-      });
+    const sizeKB = (fs.statSync(outputPath).size / 1024).toFixed(1);
+    console.log('✅ PDF generated successfully!');
+    console.log(`   Output: ${outputPath}`);
+    console.log(`   Size: ${sizeKB} KB`);
 
-      // Graphite text (descriptions, dates, body text)
-      document.querySelectorAll('.text-graphite').forEach(el => {
-        (el as HTMLElement).style.color = COLORS.graphite;
-      });
+    return printPdfCheck(await checkPdf(outputPath, metadata), metadata);
+  } catch (error) {
+    console.error('❌ Error generating PDF:', error);
+    return false;
+  } finally {
+    await page.close();
+  }
+}
 
-      // List items
-      document.querySelectorAll('li').forEach(li => {
-        (li as HTMLElement).style.color = COLORS.graphite;
-      });
+async function generatePDF(args: string[]) {
+  console.log('📄 Generating CV PDF...');
 
+  const maxExperience = Number(getOption(args, 'max-experience') ?? DEFAULT_PRINT_OPTIONS.maxExperience);
+  if (!Number.isInteger(maxExperience) || maxExperience < 1) {
+    console.error('❌ Error: --max-experience must be a positive whole number');
+    process.exit(1);
+  }
+  const pagesArg = getOption(args, 'pages');
+  const pages = pagesArg === undefined ? undefined : Number(pagesArg);
+  if (pages !== undefined && (!Number.isInteger(pages) || pages < 1)) {
+    console.error('❌ Error: --pages must be a positive whole number');
+    process.exit(1);
+  }
+  const options: PrintOptions = {
+    maxExperience,
+    keyAchievements: hasFlag(args, 'key-achievements'),
+  };
 
-      // Section borders
-      document.querySelectorAll('.border-b').forEach(el => {
-        (el as HTMLElement).style.borderColor = COLORS.border;
-      });
+  let jobs: PdfJob[];
+  try {
+    jobs = createJobs(args);
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
 
-      // Header border
-      const cvHeader = document.querySelector('.container-narrow > header') as HTMLElement;
-      if (cvHeader) {
-        cvHeader.style.borderColor = COLORS.border;
+  let failed = 0;
+  try {
+    await withBrowser(async browser => {
+      // One tab at a time keeps memory flat on small CI runners
+      for (const job of jobs) {
+        if (!(await renderJob(browser, job, options, pages))) failed++;
       }
     });
-
-    // Wait for styles to apply
-    await page.evaluate(() => new Promise((resolve) => setTimeout(resolve, 500)));
-
-    // Generate PDF with settings matching the print CSS @page rules
-    await page.pdf({
-      path: OUTPUT_PDF_PATH,
-      format: 'Letter',
-      margin: {
-        top: '0.3in',
-        right: '0.4in',
-        bottom: '0.3in',
-        left: '0.4in',
-      },
-      printBackground: true,
-      displayHeaderFooter: false,
-      scale: 0.85, // Slight scale down for better density
-    });
-
-    const stats = fs.statSync(OUTPUT_PDF_PATH);
-    const sizeKB = (stats.size / 1024).toFixed(1);
-
-    console.log('✅ PDF generated successfully!');
-    console.log(`   Output: ${OUTPUT_PDF_PATH}`);
-    console.log(`   Size: ${sizeKB} KB`);
   } catch (error) {
-    console.error('❌ Error generating PDF:', error);
+    console.error(`❌ Error: ${(error as Error).message}`);
     process.exit(1);
-  } finally {
-    await browser.close();
   }
+
+  if (jobs.length > 1) {
+    console.log('');
+    if (failed > 0) console.error(`❌ ${failed} of ${jobs.length} PDFs failed`);
+    else console.log(`✅ Generated ${jobs.length} PDFs`);
+  }
+  if (failed > 0) process.exit(1);
 }
 
-generatePDF();
+generatePDF(process.argv.slice(2));
@@ -7,134 +7,64 @@
  *
  * Workflow:
  *   1. Export CV to markdown:  npm run cv:markdown > tailored-cv.md
+ *      (or tailor it to a job description: npm run cv:tailor -- job.txt)
  *   2. Edit with LLM or manually to tailor for specific job
  *   3. Generate PDF:           npm run cv:pdf:tailored tailored-cv.md
  *
  * Usage:
  *   npm run cv:pdf:tailored <markdown-file> [output-file]
  *
+ * Options:
+ *   --pages <n>        Page budget: drop the oldest roles, then the lowest-priority
+ *                      achievements, then tighten spacing and scale until the PDF fits
+ *   --preset <name>    Page setup preset from src/data/pdf.json
+ *   --config <file>    Read presets from another file
+ *   --paper <size>     Paper size: a4, letter, legal, ...
+ *   --margin <css>     Margins as CSS shorthand, e.g. "0.3in 0.4in"
+ *   --locale <locale>  Language of the markdown, for the PDF's language
+ *                      tag, e.g. pt for `npm run cv:markdown -- --locale pt`
+ *   --output <file>    Output path (same as the output-file argument)
+ *
+ * Dates and headings are taken from the markdown as written, so the locale
+ * only labels the document.
+ *
  * Examples:
  *   npm run cv:pdf:tailored tailored-cv.md
  *   npm run cv:pdf:tailored tailored-cv.md my-cv-for-company.pdf
+ *   npm run cv:pdf:tailored -- tailored-cv.md --pages 2
+ *   npm run cv:pdf:tailored -- tailored-cv.md --paper a4
  */
 
-import puppeteer from 'puppeteer-core';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import fs from 'fs';
-import { execSync } from 'child_process';
+import type { Root } from 'mdast';
+import { withBrowser } from './lib/browser';
+import { getOption, getPositionals } from './lib/cli';
+import { COLORS } from './lib/colors';
+import { embeddedFontFaces } from './lib/fonts';
+import { parseMarkdown, renderMarkdownTree } from './lib/markdown';
+import { fitToPages, markdownFitAdapter, printFitReport } from './lib/page-fit';
+import type { PdfSettings } from './lib/pdf-config';
+import { getPdfSettings, parseMargin } from './lib/pdf-config';
+import { checkPdf, markdownMetadata, printPdfCheck, writeMetadata } from './lib/pdf-metadata';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Color palette matching the main CV
-const COLORS = {
-  ink: '#1A1A1A',
-  graphite: '#4B4B4B',
-  copper: '#B36B47',
-  beige: '#F4EFE6',
-  border: '#E5E5E5',
-};
-
-/**
- * Find Chrome/Chromium executable path
- */
-function findChromePath(): string {
-  if (process.env.CHROME_PATH) {
-    return process.env.CHROME_PATH;
-  }
-
-  const platform = process.platform;
-
-  const paths: Record<string, string[]> = {
-    darwin: [
-      '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
-      '/Applications/Chromium.app/Contents/MacOS/Chromium',
-    ],
-    linux: [
-      '/usr/bin/google-chrome',
-      '/usr/bin/google-chrome-stable',
-      '/usr/bin/chromium',
-      '/usr/bin/chromium-browser',
-    ],
-    win32: [
-      'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
-      'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe',
-    ],
-  };
-
-  const platformPaths = paths[platform] || [];
-
-  for (const chromePath of platformPaths) {
-    if (chromePath && fs.existsSync(chromePath)) {
-      return chromePath;
-    }
-  }
-
-  if (platform !== 'win32') {
-    try {
-      const result = execSync('which google-chrome || which chromium', {
-        encoding: 'utf-8',
-        stdio: ['pipe', 'pipe', 'pipe'],
-      }).trim();
-      if (result) return result;
-    } catch {
-      // Ignore
-    }
-  }
-
-  throw new Error('Chrome not found. Set CHROME_PATH environment variable.');
-}
-
 /**
  * Convert markdown to styled HTML - compact for 2-page CV
  */
-function markdownToHtml(markdown: string): string {
-  let html = markdown;
-
-  // Escape HTML
-  html = html.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
-
-  // Headers - consistent compact sizes
-  html = html.replace(/^# (.+)$/gm, `<h1>$1</h1>`);
-  html = html.replace(/^## (.+)$/gm, `<h2>$1</h2>`);
-  html = html.replace(/^### (.+)$/gm, `<h3>$1</h3>`);
-
-  // Bold labels (like **Skills:**) - copper color for category names
-  html = html.replace(/\*\*([^*]+):\*\*/g, `<strong class="label">$1:</strong>`);
-  // Other bold text
-  html = html.replace(/\*\*([^*]+)\*\*/g, `<strong>$1</strong>`);
-  // Italic (dates, locations)
-  html = html.replace(/\*([^*]+)\*/g, `<em>$1</em>`);
-
-  // Lists
-  html = html.replace(/^- (.+)$/gm, `<li>$1</li>`);
-
-  // Wrap consecutive <li> in <ul>
-  html = html.replace(/(<li>.*?<\/li>\n?)+/g, (match) => {
-    return `<ul>${match}</ul>`;
-  });
-
-  // Process paragraphs (lines that aren't already HTML)
-  const lines = html.split('\n');
-  const processedLines = lines.map(line => {
-    const trimmed = line.trim();
-    if (!trimmed) return '';
-    if (trimmed.startsWith('<')) return line;
-    return `<p>${trimmed}</p>`;
-  });
-  html = processedLines.join('\n');
-
-  // Clean up empty lines
-  html = html.replace(/\n{3,}/g, '\n\n');
+function markdownToHtml(tree: Root, locale: string): string {
+  const html = renderMarkdownTree(tree);
 
   return `
 <!DOCTYPE html>
-<html>
+<html lang="${locale}">
 <head>
   <meta charset="UTF-8">
   <style>
-    @import url('https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap');
+    ${embeddedFontFaces()}
 
     * {
       margin: 0;
@@ -192,16 +122,15 @@ function markdownToHtml(markdown: string): string {
       margin-bottom: 4pt;
     }
 
-    /* Add spacing after experience/education blocks */
-    h3 + em + p {
-      margin-bottom: 6pt;
-    }
-
-    em {
+    /* Dates and locations: a paragraph that is only emphasis */
+    p.meta {
       font-size: 8pt;
       color: ${COLORS.graphite};
-      display: block;
-      margin-bottom: 4pt;
+    }
+
+    /* Add spacing after experience/education blocks */
+    h3 + p.meta + p {
+      margin-bottom: 6pt;
     }
 
     strong {
@@ -214,16 +143,57 @@ function markdownToHtml(markdown: string): string {
       font-size: 8.5pt;
     }
 
-    ul {
-      list-style-type: disc;
+    ul, ol {
       margin: 3pt 0 8pt 0;
       padding-left: 14pt;
     }
 
+    ul {
+      list-style-type: disc;
+    }
+
+    ol {
+      list-style-type: decimal;
+    }
+
     li {
       margin-bottom: 2pt;
     }
 
+    li > ul, li > ol {
+      margin: 2pt 0 0 0;
+    }
+
+    a {
+      color: ${COLORS.copper};
+      text-decoration: none;
+    }
+
+    code {
+      font-family: ui-monospace, 'SF Mono', Menlo, Consolas, monospace;
+      font-size: 8pt;
+      background: ${COLORS.beige};
+      padding: 0 2pt;
+      border-radius: 2pt;
+    }
+
+    pre {
+      background: ${COLORS.beige};
+      padding: 4pt 6pt;
+      margin-bottom: 6pt;
+      white-space: pre-wrap;
+    }
+
+    pre code {
+      padding: 0;
+    }
+
+    blockquote {
+      border-left: 2pt solid ${COLORS.border};
+      padding-left: 6pt;
+      margin-bottom: 4pt;
+    }
+
     /* Skills section - tighter spacing */
     h2 + p > strong.label {
       display: inline;
@@ -237,9 +207,10 @@ ${html}
 `;
 }
 
-async function generatePDF(inputPath: string, outputPath: string) {
+async function generatePDF(inputPath: string, outputPath: string, settings: PdfSettings, pages?: number) {
   console.log('📄 Generating tailored CV PDF...');
   console.log(`   Input: ${inputPath}`);
+  console.log(`   Page: ${settings.paper.toUpperCase()}, margins ${settings.margin}, locale ${settings.locale}`);
 
   if (!fs.existsSync(inputPath)) {
     console.error(`❌ Error: File not found: ${inputPath}`);
@@ -254,53 +225,40 @@ async function generatePDF(inputPath: string, outputPath: string) {
   markdown = markdown.replace(/^\n?>\s+tsx\s+\S+\n/gm, '');
   markdown = markdown.replace(/^\n+/, ''); // Remove leading empty lines
 
-  const html = markdownToHtml(markdown);
-
-  const chromePath = findChromePath();
-  console.log(`   Using Chrome: ${chromePath}`);
-
-  const browser = await puppeteer.launch({
-    executablePath: chromePath,
-    headless: true,
-    args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-gpu'],
-  });
+  const tree = parseMarkdown(markdown);
+  const adapter = markdownFitAdapter(tree, tree => markdownToHtml(tree, settings.locale));
 
   try {
-    const page = await browser.newPage();
-
-    await page.setContent(html, {
-      waitUntil: 'networkidle0',
-      timeout: 30000,
-    });
-
-    // Wait for fonts
-    await page.evaluateHandle('document.fonts.ready');
-
-    await page.pdf({
-      path: outputPath,
-      format: 'Letter',
-      margin: {
-        top: '0.3in',
-        right: '0.4in',
-        bottom: '0.3in',
-        left: '0.4in',
-      },
-      printBackground: true,
-      displayHeaderFooter: false,
-      scale: 0.9,
+    await withBrowser(async browser => {
+      const page = await browser.newPage();
+
+      const result = await fitToPages(page, adapter, {
+        format: settings.paper,
+        margin: parseMargin(settings.margin),
+        printBackground: true,
+        displayHeaderFooter: false,
+        tagged: true,
+        outline: true,
+        scale: 0.9,
+      }, pages);
+
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      const metadata = markdownMetadata(tree, result.html, settings.locale);
+      fs.writeFileSync(outputPath, await writeMetadata(result.pdf, metadata));
+      if (pages !== undefined) printFitReport(result, pages);
+
+      const stats = fs.statSync(outputPath);
+      const sizeKB = (stats.size / 1024).toFixed(1);
+
+      console.log('✅ PDF generated successfully!');
+      console.log(`   Output: ${outputPath}`);
+      console.log(`   Size: ${sizeKB} KB`);
+
+      if (!printPdfCheck(await checkPdf(outputPath, metadata), metadata)) process.exitCode = 1;
     });
-
-    const stats = fs.statSync(outputPath);
-    const sizeKB = (stats.size / 1024).toFixed(1);
-
-    console.log('✅ PDF generated successfully!');
-    console.log(`   Output: ${outputPath}`);
-    console.log(`   Size: ${sizeKB} KB`);
   } catch (error) {
     console.error('❌ Error generating PDF:', error);
     process.exit(1);
-  } finally {
-    await browser.close();
   }
 }
 
@@ -312,7 +270,8 @@ function main() {
 Tailored CV PDF Generator
 
 Usage:
-  npm run cv:pdf:tailored <markdown-file> [output-file]
+  npm run cv:pdf:tailored <markdown-file> [output-file] [--pages <n>]
+      [--preset <name>] [--paper <size>] [--margin <css>]
 
 Workflow:
   1. Export your CV to markdown:
@@ -327,16 +286,39 @@ Workflow:
 Examples:
   npm run cv:pdf:tailored tailored-cv.md
   npm run cv:pdf:tailored tailored-cv.md my-cv-for-google.pdf
+  npm run cv:pdf:tailored -- tailored-cv.md --pages 2
+  npm run cv:pdf:tailored -- tailored-cv.md --paper a4
     `);
     process.exit(0);
   }
 
-  const inputPath = path.resolve(args[0]);
-  const outputPath = args[1]
-    ? path.resolve(args[1])
+  const [inputArg, outputArg] = getPositionals(args, ['pages', 'preset', 'config', 'paper', 'margin', 'locale', 'output']);
+  const pagesArg = getOption(args, 'pages');
+  const pages = pagesArg === undefined ? undefined : Number(pagesArg);
+  if (!inputArg) {
+    console.error('❌ Error: Missing markdown file');
+    process.exit(1);
+  }
+  if (pages !== undefined && (!Number.isInteger(pages) || pages < 1)) {
+    console.error('❌ Error: --pages must be a positive whole number');
+    process.exit(1);
+  }
+
+  let settings: PdfSettings;
+  try {
+    settings = getPdfSettings(args);
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const inputPath = path.resolve(inputArg);
+  const output = outputArg ?? settings.output;
+  const outputPath = output
+    ? path.resolve(output)
     : inputPath.replace(/\.md$/, '.pdf');
 
-  generatePDF(inputPath, outputPath);
+  generatePDF(inputPath, outputPath, settings, pages);
 }
 
 main();
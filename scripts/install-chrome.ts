@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+/**
+ * Install Chrome
+ *
+ * Downloads the Chrome build pinned in scripts/lib/browser.ts into the
+ * Puppeteer cache (`PUPPETEER_CACHE_DIR`, default ~/.cache/puppeteer).
+ * Once installed, the PDF scripts prefer it over any other Chrome, and the
+ * visual regression check uses nothing else.
+ *
+ * Usage:
+ *   npm run chrome:install
+ */
+
+import { PINNED_CHROME, installPinnedChrome } from './lib/browser';
+
+async function main() {
+  console.log(`📦 Installing ${PINNED_CHROME.browser}@${PINNED_CHROME.buildId}...`);
+  try {
+    const executablePath = await installPinnedChrome();
+    console.log(`✅ Installed: ${executablePath}`);
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+/**
+ * JSON Resume Export / Import
+ *
+ * Converts cv.json to the JSON Resume v1.0.0 schema (https://jsonresume.org)
+ * so it can be used with JSON Resume themes and tools, and merges a JSON
+ * Resume file back into cv.json.
+ *
+ * Usage:
+ *   npm run --silent cv:jsonresume > resume.json          # Export to stdout
+ *   npm run --silent cv:jsonresume -- --profile tech-lead  # Export a profile
+ *   npm run --silent cv:jsonresume -- --locale pt          # Export in Portuguese
+ *   npm run cv:jsonresume -- import resume.json            # Merge into cv.json
+ *   npm run cv:jsonresume -- import resume.json --dry-run  # Print merged JSON only
+ *   npm run cv:jsonresume -- import resume.json --prune    # Also remove unmatched entries
+ *
+ * Options:
+ *   --profile <name>  Profile from src/data/profiles.json, or comma-separated
+ *                     visibility tags (export only)
+ *   --include-hidden  Include all items regardless of visibility (export
+ *                     only); --profile overrides still apply
+ *   --locale <lang>   Language, e.g. pt; untranslated fields stay English
+ *                     (export only)
+ *   --dry-run         Print the merged cv.json instead of writing it (import only)
+ *   --prune           Remove cv.json entries the resume has no match for
+ *                     (import only)
+ *
+ * Imports keep the `id` and `visibility` of entries that already exist in
+ * cv.json, keep translations of text whose English is unchanged, and report
+ * every resume field that has no CV equivalent. Entries the resume doesn't
+ * mention are kept, since a default export leaves hidden ones out; they
+ * are listed, and only removed with --prune.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { JSONResume } from '../src/types/jsonresume';
+import {
+  CV_JSON_PATH,
+  fromJSONResume,
+  keepTranslations,
+  loadCV,
+  loadCVSource,
+  saveCV,
+  stringifyCV,
+  toJSONResume,
+  validateCV,
+} from '../src/lib/cv';
+import { applyProfileArgs, getLocale, getPositionals, hasFlag } from './lib/cli';
+
+function exportResume(args: string[]) {
+  const locale = getLocale(args);
+  let cv = loadCV(undefined, locale);
+  cv = applyProfileArgs(args, cv, locale);
+
+  process.stdout.write(JSON.stringify(toJSONResume(cv), null, 2) + '\n');
+}
+
+function importResume(inputPath: string, dryRun: boolean, prune: boolean) {
+  if (!fs.existsSync(inputPath)) {
+    console.error(`❌ Error: File not found: ${inputPath}`);
+    process.exit(1);
+  }
+
+  const resume: JSONResume = JSON.parse(fs.readFileSync(inputPath, 'utf-8'));
+  const { cv, unmapped, unmatched } = fromJSONResume(resume, loadCV(), { prune });
+
+  if (unmapped.length > 0) {
+    console.error(`⚠️  ${unmapped.length} field(s) could not be mapped and were skipped:`);
+    for (const field of unmapped) {
+      console.error(`   ${field}`);
+    }
+    console.error('');
+  }
+
+  if (unmatched.length > 0) {
+    const entries = `${unmatched.length} ${unmatched.length === 1 ? 'entry' : 'entries'}`;
+    console.error(prune
+      ? `🗑️  ${entries} not in the resume will be removed:`
+      : `ℹ️  ${entries} not in the resume were kept (use --prune to remove them):`);
+    for (const entry of unmatched) {
+      console.error(`   ${entry}`);
+    }
+    console.error('');
+  }
+
+  const result = validateCV(keepTranslations(cv, loadCVSource()));
+  if (!result.success) {
+    console.error('❌ The merged CV is invalid, cv.json was not changed:');
+    for (const issue of result.issues) {
+      console.error(`   ${issue.path}: ${issue.message}`);
+    }
+    process.exit(1);
+  }
+
+  if (dryRun) {
+    process.stdout.write(stringifyCV(result.source));
+    return;
+  }
+
+  saveCV(result.source);
+  console.error(`✅ Merged ${path.basename(inputPath)} into ${path.relative(process.cwd(), CV_JSON_PATH)}`);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const [command, inputFile] = getPositionals(args, ['profile', 'locale']);
+
+  try {
+    if (!command || command === 'export') {
+      exportResume(args);
+    } else if (command === 'import') {
+      if (!inputFile) {
+        console.error('Usage: npm run cv:jsonresume -- import <resume.json> [--dry-run] [--prune]');
+        process.exit(1);
+      }
+      importResume(path.resolve(inputFile), hasFlag(args, 'dry-run'), hasFlag(args, 'prune'));
+    } else {
+      console.error(`Unknown command "${command}". Use "export" or "import".`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,158 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createTwoFilesPatch } from 'diff';
+import matter from 'gray-matter';
+import { isCollection, isMap, parseDocument } from 'yaml';
+import type { CrosspostProviderKey, CrosspostState } from '../../src/lib/crosspost';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const BLOG_DIR = path.join(__dirname, '..', '..', 'src', 'content', 'blog');
+export const SITE_URL = 'https://camarneiro.com';
+
+/**
+ * Blog post frontmatter, as defined by the content collection in
+ * src/content/config.ts.
+ */
+export interface BlogFrontmatter {
+  title: string;
+  description: string;
+  publishedAt: Date;
+  updatedAt?: Date;
+  tags?: string[];
+  draft?: boolean;
+  canonicalUrl?: string;
+  crosspost?: Partial<Record<CrosspostProviderKey, CrosspostState>>;
+}
+
+export interface BlogPost {
+  slug: string;
+  filePath: string;
+  frontmatter: BlogFrontmatter;
+  /** The markdown after the frontmatter */
+  content: string;
+  /** The whole file as read */
+  source: string;
+}
+
+/** A frontmatter value to set, by its path, e.g. `[['crosspost', 'devTo', 'id'], 123]` */
+export type FrontmatterField = [path: string[], value: unknown];
+
+/** Frontmatter block: the opening `---` line, the YAML, the closing `---` */
+const FRONTMATTER_PATTERN = /^---[ \t]*\r?\n([\s\S]*?)^---[ \t]*$/m;
+
+/** File types of the blog collection */
+const POST_EXTENSIONS = ['.md', '.mdx'];
+
+/**
+ * Read a post from src/content/blog by slug, as .md or .mdx.
+ */
+export function loadPost(slug: string): BlogPost {
+  const filePath = POST_EXTENSIONS.map(extension => path.join(BLOG_DIR, `${slug}${extension}`)).find(candidate => fs.existsSync(candidate));
+  if (!filePath) {
+    throw new Error(`Post not found at ${path.join(BLOG_DIR, `${slug}.md`)}`);
+  }
+
+  const source = fs.readFileSync(filePath, 'utf-8');
+  const { data, content } = matter(source);
+  return { slug, filePath, frontmatter: data as BlogFrontmatter, content, source };
+}
+
+/**
+ * Every post in src/content/blog, by slug.
+ */
+export function loadPosts(): BlogPost[] {
+  return fs.readdirSync(BLOG_DIR)
+    .filter(file => POST_EXTENSIONS.includes(path.extname(file)))
+    .sort()
+    .map(file => loadPost(path.basename(file, path.extname(file))));
+}
+
+/**
+ * A post's file with frontmatter fields set, creating any missing parent
+ * objects. The YAML is edited as a document, so key order, quoting,
+ * comments and line endings are kept, and everything after the frontmatter
+ * is left byte for byte as it was.
+ */
+export function setFrontmatter(source: string, fields: FrontmatterField[]): string {
+  const match = source.match(FRONTMATTER_PATTERN);
+  if (!match || match.index !== 0) {
+    throw new Error('The post has no frontmatter block');
+  }
+
+  const doc = parseDocument(match[1]);
+  if (doc.errors.length > 0) {
+    throw new Error(`Invalid frontmatter: ${doc.errors[0].message}`);
+  }
+  // Comments after the last key would otherwise be written back after a blank line
+  if (doc.comment && isMap(doc.contents) && !doc.contents.comment) {
+    doc.contents.comment = doc.comment;
+    doc.comment = null;
+  }
+
+  for (const [fieldPath, value] of fields) {
+    // An empty `crosspost:` parses as null; it needs to become a map first
+    for (let depth = 1; depth < fieldPath.length; depth++) {
+      const parent = fieldPath.slice(0, depth);
+      if (!isCollection(doc.getIn(parent, true))) doc.setIn(parent, doc.createNode({}));
+    }
+    doc.setIn(fieldPath, value);
+  }
+
+  const yaml = doc.toString({
+    lineWidth: 0,
+    flowCollectionPadding: false,
+    defaultStringType: 'QUOTE_DOUBLE',
+    defaultKeyType: 'PLAIN',
+  });
+  const frontmatter = `---\n${yaml}---`;
+  // Keep the file's line endings: YAML is written with \n only
+  const newline = match[0].includes('\r\n') ? '\r\n' : '\n';
+  return frontmatter.replace(/\n/g, newline) + source.slice(match[0].length);
+}
+
+/**
+ * Whether every field already has the given value.
+ */
+export function hasFrontmatter(post: BlogPost, fields: FrontmatterField[]): boolean {
+  return fields.every(([fieldPath, value]) => {
+    const current = fieldPath.reduce<unknown>(
+      (node, key) => (node as Record<string, unknown> | undefined)?.[key],
+      post.frontmatter,
+    );
+    return current === value;
+  });
+}
+
+/**
+ * Write frontmatter fields into a post's file, or with `dryRun` print the
+ * change as a unified diff instead. Does nothing when the fields already
+ * have those values.
+ */
+export function writeFrontmatter(post: BlogPost, fields: FrontmatterField[], dryRun = false): void {
+  const relativePath = path.relative(process.cwd(), post.filePath);
+  if (hasFrontmatter(post, fields)) {
+    console.log(`   Frontmatter of ${relativePath} is already up to date`);
+    return;
+  }
+
+  const updated = setFrontmatter(post.source, fields);
+  if (dryRun) {
+    console.log(`   Frontmatter change for ${relativePath} (dry run, not written):`);
+    console.log('');
+    console.log(createTwoFilesPatch(relativePath, relativePath, post.source, updated, '', '', { context: 2 }));
+    return;
+  }
+
+  fs.writeFileSync(post.filePath, updated);
+  console.log(`   Updated the frontmatter of ${relativePath}`);
+}
+
+/**
+ * Where the post lives on the site: its `canonicalUrl`, or /blog/<slug>.
+ */
+export function canonicalUrl(post: BlogPost): string {
+  return post.frontmatter.canonicalUrl || `${SITE_URL}/blog/${post.slug}`;
+}
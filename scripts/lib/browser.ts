@@ -0,0 +1,202 @@
+/**
+ * Chrome for the PDF scripts: finding an executable, launching it with one
+ * set of arguments, and sharing one browser across many documents.
+ *
+ * `CHROME_PATH` is used on its own when set. Otherwise candidates are tried
+ * in order: the pinned Chrome build (`PINNED_CHROME`) if it's installed, the
+ * usual install locations for the platform, whatever `which` finds, and
+ * finally any other Chrome or headless shell in the Puppeteer cache
+ * (`PUPPETEER_CACHE_DIR`, default ~/.cache/puppeteer).
+ *
+ * `npm run chrome:install` installs the pinned build. The visual regression
+ * check always runs in it, so its baselines don't change with the system
+ * Chrome.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execSync } from 'child_process';
+import { Browser as BrowserName, computeExecutablePath, getInstalledBrowsers, install } from '@puppeteer/browsers';
+import puppeteer from 'puppeteer-core';
+import type { Browser } from 'puppeteer-core';
+
+const INSTALL_HINT = 'Install Chrome, set CHROME_PATH, or run: npm run chrome:install';
+
+/**
+ * The Chrome build the PDFs and the visual baselines in tests/visual/ are
+ * rendered with. Changing it means updating the baselines.
+ */
+export const PINNED_CHROME = {
+  browser: BrowserName.CHROMEHEADLESSSHELL,
+  buildId: '141.0.7390.54',
+} as const;
+
+const LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--font-render-hinting=none',
+  '--disable-gpu',
+];
+
+const PLATFORM_PATHS: Record<string, string[]> = {
+  darwin: [
+    '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+    '/Applications/Chromium.app/Contents/MacOS/Chromium',
+    '/Applications/Google Chrome Canary.app/Contents/MacOS/Google Chrome Canary',
+  ],
+  linux: [
+    '/usr/bin/google-chrome',
+    '/usr/bin/google-chrome-stable',
+    '/usr/bin/chromium',
+    '/usr/bin/chromium-browser',
+    '/snap/bin/chromium',
+  ],
+  win32: [
+    'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+    'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe',
+    `${process.env.LOCALAPPDATA}\\Google\\Chrome\\Application\\chrome.exe`,
+  ],
+};
+
+/**
+ * No usable Chrome: lists every executable that was found and why it
+ * couldn't be started.
+ */
+export class ChromeNotFoundError extends Error {
+  failures: { path: string; reason: string }[];
+
+  constructor(failures: { path: string; reason: string }[]) {
+    const details = failures.map(failure => `  - ${failure.path}: ${failure.reason}`).join('\n');
+    super(
+      failures.length === 0
+        ? `Chrome/Chromium not found. ${INSTALL_HINT}`
+        : `Chrome/Chromium could not be started:\n${details}\n${INSTALL_HINT}`,
+    );
+    this.name = 'ChromeNotFoundError';
+    this.failures = failures;
+  }
+}
+
+function whichChrome(): string | undefined {
+  if (process.platform === 'win32') return undefined;
+  try {
+    const result = execSync('which google-chrome || which chromium || which chromium-browser', {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }).trim();
+    return result || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function puppeteerCacheDir(): string {
+  return process.env.PUPPETEER_CACHE_DIR ?? path.join(os.homedir(), '.cache', 'puppeteer');
+}
+
+/** Where the pinned build is, or would be, installed */
+function pinnedChromePath(): string {
+  return computeExecutablePath({ ...PINNED_CHROME, cacheDir: puppeteerCacheDir() });
+}
+
+/**
+ * Install the pinned Chrome build into the Puppeteer cache, unless it's
+ * already there. Returns its executable.
+ */
+export async function installPinnedChrome(): Promise<string> {
+  const installed = await install({ ...PINNED_CHROME, cacheDir: puppeteerCacheDir() });
+  return installed.executablePath;
+}
+
+/** Chrome builds in the Puppeteer cache, newest first, full Chrome before the headless shell */
+async function cachedChromePaths(): Promise<string[]> {
+  const cacheDir = puppeteerCacheDir();
+  if (!fs.existsSync(cacheDir)) return [];
+
+  const installed = await getInstalledBrowsers({ cacheDir });
+  const order = [BrowserName.CHROME, BrowserName.CHROMEHEADLESSSHELL];
+  return installed
+    .filter(browser => order.includes(browser.browser))
+    .sort((a, b) =>
+      order.indexOf(a.browser) - order.indexOf(b.browser) ||
+      b.buildId.localeCompare(a.buildId, undefined, { numeric: true }))
+    .map(browser => browser.executablePath);
+}
+
+/**
+ * Every Chrome executable worth trying, in order of preference.
+ * `CHROME_PATH` is used as given, even if it doesn't exist, so a typo
+ * there shows up in the error instead of silently using another Chrome.
+ */
+export async function findChromePaths(): Promise<string[]> {
+  if (process.env.CHROME_PATH) return [process.env.CHROME_PATH];
+
+  const pinned = pinnedChromePath();
+  const candidates = [
+    fs.existsSync(pinned) ? pinned : undefined,
+    ...(PLATFORM_PATHS[process.platform] ?? []).filter(chromePath => fs.existsSync(chromePath)),
+    whichChrome(),
+    ...(await cachedChromePaths()),
+  ];
+  return [...new Set(candidates.filter((chromePath): chromePath is string => Boolean(chromePath)))];
+}
+
+/** The line of a launch error that says what went wrong, without Puppeteer's troubleshooting link */
+function launchFailure(error: unknown, chromePath: string): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const reason = message.split('\n').find(line => /error|not found|no such file|cannot/i.test(line));
+  return (reason ?? message.split('\n')[0]).replace(`${chromePath}: `, '').trim();
+}
+
+export interface LaunchOptions {
+  /**
+   * Use only the pinned Chrome build, installing it first if needed, and
+   * ignore `CHROME_PATH`. For renders that must not depend on the machine.
+   */
+  pinned?: boolean;
+}
+
+/**
+ * Launch the first Chrome candidate that starts.
+ */
+export async function launchBrowser(options: LaunchOptions = {}): Promise<{ browser: Browser; chromePath: string }> {
+  const failures: { path: string; reason: string }[] = [];
+  const candidates = options.pinned ? [await installPinnedChrome()] : await findChromePaths();
+
+  for (const chromePath of candidates) {
+    if (!fs.existsSync(chromePath)) {
+      failures.push({ path: chromePath, reason: 'file does not exist' });
+      continue;
+    }
+    try {
+      const browser = await puppeteer.launch({
+        executablePath: chromePath,
+        headless: true,
+        args: LAUNCH_ARGS,
+      });
+      return { browser, chromePath };
+    } catch (error) {
+      failures.push({ path: chromePath, reason: launchFailure(error, chromePath) });
+    }
+  }
+
+  throw new ChromeNotFoundError(failures);
+}
+
+/**
+ * Run `render` with a browser that is closed afterwards, however it ends.
+ */
+export async function withBrowser<T>(
+  render: (browser: Browser) => Promise<T>,
+  options: LaunchOptions = {},
+): Promise<T> {
+  const { browser, chromePath } = await launchBrowser(options);
+  console.log(`   Using Chrome: ${chromePath}`);
+  try {
+    return await render(browser);
+  } finally {
+    await browser.close();
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Minimal argument helpers shared by the CV scripts.
+ *
+ * Options take a value either as `--name value` or `--name=value`;
+ * everything else that doesn't start with `--` is positional.
+ */
+
+import type { CVData, CVProfile } from '../../src/types/cv';
+import {
+  DEFAULT_LOCALE,
+  LOCALE_PATTERN,
+  applyProfile,
+  languageOf,
+  loadProfiles,
+  resolveProfile,
+} from '../../src/lib/cv';
+
+export function getOption(args: string[], name: string): string | undefined {
+  const flag = `--${name}`;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === flag) return args[i + 1];
+    if (args[i].startsWith(`${flag}=`)) return args[i].slice(flag.length + 1);
+  }
+  return undefined;
+}
+
+export function hasFlag(args: string[], name: string): boolean {
+  return args.includes(`--${name}`);
+}
+
+/**
+ * Arguments that are neither flags nor the values of the given options.
+ */
+export function getPositionals(args: string[], optionsWithValues: string[]): string[] {
+  const positionals: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith('--')) {
+      if (optionsWithValues.includes(arg.slice(2))) i++;
+      continue;
+    }
+    positionals.push(arg);
+  }
+  return positionals;
+}
+
+/**
+ * The profile selected with `--profile`: a name from profiles.json or a
+ * comma-separated list of visibility tags such as `senior,frontend`.
+ */
+export function getProfile(args: string[], cv: CVData): CVProfile {
+  return resolveProfile(getOption(args, 'profile'), loadProfiles(undefined, cv));
+}
+
+/**
+ * The CV variant selected with `--profile`. `--include-hidden` keeps every
+ * entry but still applies the profile's title, summary, skill order and
+ * role limit.
+ */
+export function applyProfileArgs(args: string[], cv: CVData, locale: string): CVData {
+  return applyProfile(cv, getProfile(args, cv), locale, { includeHidden: hasFlag(args, 'include-hidden') });
+}
+
+/**
+ * The locale selected with `--locale`, e.g. `pt` or `pt-BR`. Fields without
+ * a translation stay in English.
+ */
+export function getLocale(args: string[]): string {
+  const locale = getOption(args, 'locale') ?? DEFAULT_LOCALE;
+  if (!LOCALE_PATTERN.test(locale)) {
+    throw new Error(`--locale must be a locale such as "pt" or "pt-BR", got "${locale}"`);
+  }
+  return locale;
+}
+
+/**
+ * A default output file name with the language added for anything but
+ * English, so exports in different languages don't overwrite each other:
+ * `cv.docx` becomes `cv-pt.docx`.
+ */
+export function localizedFileName(fileName: string, locale: string): string {
+  const language = languageOf(locale);
+  if (language === DEFAULT_LOCALE) return fileName;
+  const extension = fileName.slice(fileName.lastIndexOf('.'));
+  return `${fileName.slice(0, -extension.length)}-${language}${extension}`;
+}
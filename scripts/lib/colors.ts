@@ -0,0 +1,11 @@
+/**
+ * CV colour palette (from tailwind.config.mjs), shared by every generated
+ * document so PDFs and Word files match the /cv page.
+ */
+export const COLORS = {
+  ink: '#1A1A1A',       // Primary text, headings
+  graphite: '#4B4B4B',  // Secondary text, body
+  copper: '#B36B47',    // Accent color, highlights
+  beige: '#F4EFE6',     // Background
+  border: '#E5E5E5',    // Subtle borders
+};
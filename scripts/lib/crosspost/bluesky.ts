@@ -0,0 +1,137 @@
+import type { BlogPost } from '../blog';
+import { canonicalUrl } from '../blog';
+import type { CrosspostProvider } from './provider';
+import { announcement, envUrl, requestJson, stateId } from './provider';
+
+/**
+ * Bluesky announcement provider: a post with a link card for the post on
+ * the site, via the AT Protocol (https://docs.bsky.app). Log in with an
+ * app password, not the account password. Bluesky posts can't be edited,
+ * so there is no `update`.
+ */
+
+/** Character limit of a Bluesky post (strictly 300 graphemes) */
+const MAX_LENGTH = 300;
+const COLLECTION = 'app.bsky.feed.post';
+
+interface Session {
+  accessJwt: string;
+  did: string;
+  handle: string;
+}
+
+interface Facet {
+  index: { byteStart: number; byteEnd: number };
+  features: ({ $type: 'app.bsky.richtext.facet#link'; uri: string } | { $type: 'app.bsky.richtext.facet#tag'; tag: string })[];
+}
+
+function xrpc<T>(method: string, body: unknown, accessJwt?: string): Promise<T> {
+  const service = envUrl('BLUESKY_SERVICE', 'https://bsky.social');
+  return requestJson('Bluesky', `${service}/xrpc/${method}`, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessJwt ? { Authorization: `Bearer ${accessJwt}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+/**
+ * Bluesky doesn't detect links or hashtags in the text; they have to be
+ * marked as facets, by UTF-8 byte offset.
+ */
+function facets(text: string, url: string): Facet[] {
+  const byteOffset = (index: number) => Buffer.byteLength(text.slice(0, index));
+  const result: Facet[] = [];
+
+  const urlIndex = text.indexOf(url);
+  if (urlIndex !== -1) {
+    result.push({
+      index: { byteStart: byteOffset(urlIndex), byteEnd: byteOffset(urlIndex + url.length) },
+      features: [{ $type: 'app.bsky.richtext.facet#link', uri: url }],
+    });
+  }
+  for (const match of text.matchAll(/(?<=^|\s)#([\p{L}\p{N}_]+)/gu)) {
+    result.push({
+      index: { byteStart: byteOffset(match.index), byteEnd: byteOffset(match.index + match[0].length) },
+      features: [{ $type: 'app.bsky.richtext.facet#tag', tag: match[1] }],
+    });
+  }
+  return result;
+}
+
+/**
+ * The repository and record key of a post's `at://` URI.
+ */
+function parseUri(uri: string): { repo: string; rkey: string } {
+  const match = uri.match(/^at:\/\/([^/]+)\/[^/]+\/([^/]+)$/);
+  if (!match) throw new Error(`Not a Bluesky post URI: ${uri}`);
+  return { repo: match[1], rkey: match[2] };
+}
+
+/**
+ * The post record without its `createdAt`: the announcement, its link and
+ * hashtags as facets, and a card for the link.
+ */
+function postRecord(post: BlogPost) {
+  const url = canonicalUrl(post);
+  const text = announcement(post, url, MAX_LENGTH);
+  return {
+    $type: COLLECTION,
+    text,
+    facets: facets(text, url),
+    embed: {
+      $type: 'app.bsky.embed.external',
+      external: { uri: url, title: post.frontmatter.title, description: post.frontmatter.description },
+    },
+  };
+}
+
+export const bluesky: CrosspostProvider = {
+  key: 'bluesky',
+  label: 'Bluesky',
+  env: ['BLUESKY_HANDLE', 'BLUESKY_APP_PASSWORD'],
+
+  async publish(post) {
+    if (post.frontmatter.draft) {
+      throw new Error('Drafts are not announced on Bluesky; set draft: false first');
+    }
+
+    const session = await xrpc<Session>('com.atproto.server.createSession', {
+      identifier: process.env.BLUESKY_HANDLE,
+      password: process.env.BLUESKY_APP_PASSWORD,
+    });
+
+    const { uri } = await xrpc<{ uri: string }>('com.atproto.repo.createRecord', {
+      repo: session.did,
+      collection: COLLECTION,
+      record: { ...postRecord(post), createdAt: new Date().toISOString() },
+    }, session.accessJwt);
+
+    return { id: uri, url: `https://bsky.app/profile/${session.handle}/post/${parseUri(uri).rkey}`, published: true };
+  },
+
+  preview(post) {
+    if (post.frontmatter.draft) {
+      throw new Error('Drafts are not announced on Bluesky; set draft: false first');
+    }
+    return postRecord(post);
+  },
+
+  async status(post, state) {
+    const { repo, rkey } = parseUri(stateId(bluesky, state));
+    const record = await xrpc<{ value: { embed?: { external?: { uri: string } } } }>(
+      `com.atproto.repo.getRecord?repo=${encodeURIComponent(repo)}&collection=${COLLECTION}&rkey=${encodeURIComponent(rkey)}`,
+      undefined,
+    );
+
+    const url = canonicalUrl(post);
+    const linked = record.value.embed?.external?.uri;
+    return {
+      url: state.url ?? `https://bsky.app/profile/${repo}/post/${rkey}`,
+      published: true,
+      differences: linked === url ? [] : [`link: the post links to ${linked ?? 'nothing'}, not ${url}`],
+    };
+  },
+};
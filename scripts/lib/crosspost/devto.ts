@@ -0,0 +1,148 @@
+import type { BlogPost } from '../blog';
+import { canonicalUrl } from '../blog';
+import type { CrosspostProvider, CrosspostResult } from './provider';
+import { compareArticles, envUrl, requestJson, stateId } from './provider';
+import { crosspostBody } from './transform';
+
+/**
+ * DEV.to API client and cross-post provider (https://developers.forem.com/api/v1).
+ *
+ * Set `DEVTO_API_URL` to point the scripts at another server, e.g. a local
+ * mock: DEVTO_API_URL=http://localhost:3001/api
+ */
+
+export const DEFAULT_DEVTO_API_URL = 'https://dev.to/api';
+export const DEVTO_API_URL = envUrl('DEVTO_API_URL', DEFAULT_DEVTO_API_URL);
+
+/** DEV.to allows at most 4 tags per article */
+const MAX_TAGS = 4;
+
+export interface DevToArticle {
+  title: string;
+  body_markdown: string;
+  published: boolean;
+  tags?: string[];
+  canonical_url?: string;
+  series?: string;
+  main_image?: string;
+  description?: string;
+}
+
+export interface DevToResponse {
+  id: number;
+  url: string;
+  title: string;
+  published: boolean;
+}
+
+/** An article as listed by /articles/me/all */
+export interface DevToRemoteArticle extends DevToResponse {
+  description?: string;
+  body_markdown: string;
+  tag_list: string[];
+  canonical_url?: string;
+}
+
+function request<T>(apiKey: string, method: string, endpoint: string, body?: unknown): Promise<T> {
+  return requestJson('DEV.to', `${DEVTO_API_URL}${endpoint}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'api-key': apiKey,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+/**
+ * Tags the way DEV.to stores them: lowercase letters and digits only, at
+ * most four.
+ */
+export function devToTags(tags: string[] = []): string[] {
+  return tags
+    .map(tag => tag.toLowerCase().replace(/[^a-z0-9]/g, ''))
+    .filter(tag => tag.length > 0)
+    .slice(0, MAX_TAGS);
+}
+
+/**
+ * The DEV.to article for a post, with the canonical URL pointing back to
+ * the site. Drafts are sent unpublished.
+ */
+export function toDevToArticle(post: BlogPost): DevToArticle {
+  return {
+    title: post.frontmatter.title,
+    body_markdown: crosspostBody(post, 'devto'),
+    published: !post.frontmatter.draft,
+    tags: devToTags(post.frontmatter.tags),
+    canonical_url: canonicalUrl(post),
+    description: post.frontmatter.description,
+  };
+}
+
+export function createArticle(apiKey: string, article: DevToArticle): Promise<DevToResponse> {
+  return request(apiKey, 'POST', '/articles', { article });
+}
+
+export function updateArticle(apiKey: string, id: number, article: Partial<DevToArticle>): Promise<DevToResponse> {
+  return request(apiKey, 'PUT', `/articles/${id}`, { article });
+}
+
+/**
+ * One of the API key owner's articles, published or not. Unpublished
+ * articles aren't available from /articles/{id}, so this pages through
+ * /articles/me/all.
+ */
+export async function getOwnArticle(apiKey: string, id: number): Promise<DevToRemoteArticle | undefined> {
+  const perPage = 100;
+  for (let page = 1; ; page++) {
+    const articles = await request<DevToRemoteArticle[]>(apiKey, 'GET', `/articles/me/all?page=${page}&per_page=${perPage}`);
+    const article = articles.find(candidate => candidate.id === id);
+    if (article || articles.length < perPage) return article;
+  }
+}
+
+function toResult(response: DevToResponse): CrosspostResult {
+  return { id: response.id, url: response.url, published: response.published };
+}
+
+function apiKey(): string {
+  return process.env.DEVTO_API_KEY ?? '';
+}
+
+export const devTo: CrosspostProvider = {
+  key: 'devTo',
+  label: 'DEV.to',
+  env: ['DEVTO_API_KEY'],
+
+  async publish(post) {
+    return toResult(await createArticle(apiKey(), toDevToArticle(post)));
+  },
+
+  preview: toDevToArticle,
+
+  async update(post, state) {
+    return toResult(await updateArticle(apiKey(), Number(stateId(devTo, state)), toDevToArticle(post)));
+  },
+
+  // DEV.to has no delete endpoint for articles; unpublished articles stay as drafts
+  async unpublish(_post, state) {
+    return toResult(await updateArticle(apiKey(), Number(stateId(devTo, state)), { published: false }));
+  },
+
+  async status(post, state) {
+    const id = Number(stateId(devTo, state));
+    const remote = await getOwnArticle(apiKey(), id);
+    if (!remote) throw new Error(`Article ${id} was not found among your DEV.to articles`);
+
+    const local = toDevToArticle(post);
+    return {
+      url: remote.url,
+      published: remote.published,
+      differences: compareArticles(
+        { title: local.title, body: local.body_markdown, tags: local.tags ?? [], published: local.published },
+        { title: remote.title, body: remote.body_markdown, tags: remote.tag_list, published: remote.published },
+      ),
+    };
+  },
+};
@@ -0,0 +1,133 @@
+import type { BlogPost } from '../blog';
+import { canonicalUrl } from '../blog';
+import type { CrosspostProvider } from './provider';
+import { compareArticles, envUrl, requestJson, stateId } from './provider';
+import { crosspostBody } from './transform';
+
+/**
+ * Hashnode cross-post provider, via the GraphQL API
+ * (https://apidocs.hashnode.com). Posts go to the publication in
+ * `HASHNODE_PUBLICATION_ID`.
+ */
+
+const HASHNODE_API_URL = envUrl('HASHNODE_API_URL', 'https://gql.hashnode.com');
+
+/** Hashnode allows at most 5 tags per post */
+const MAX_TAGS = 5;
+
+interface HashnodeTag {
+  slug: string;
+  name: string;
+}
+
+interface HashnodePost {
+  id: string;
+  url: string;
+  title: string;
+  content: { markdown: string };
+  tags: { slug: string }[];
+}
+
+interface GraphQLResponse<T> {
+  data?: T;
+  errors?: { message: string }[];
+}
+
+const POST_FIELDS = 'id url title content { markdown } tags { slug }';
+
+async function graphql<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+  const response = await requestJson<GraphQLResponse<T>>('Hashnode', HASHNODE_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: process.env.HASHNODE_TOKEN ?? '',
+    },
+    body: JSON.stringify({ query, variables }),
+  });
+
+  if (response.errors?.length || !response.data) {
+    const messages = response.errors?.map(error => error.message).join('; ') || 'no data returned';
+    throw new Error(`Hashnode API error: ${messages}`);
+  }
+  return response.data;
+}
+
+/**
+ * Tags as Hashnode slugs: lowercase words joined by hyphens.
+ */
+function hashnodeTags(tags: string[] = []): HashnodeTag[] {
+  return tags
+    .map(tag => ({ slug: tag.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''), name: tag }))
+    .filter(tag => tag.slug.length > 0)
+    .slice(0, MAX_TAGS);
+}
+
+function postInput(post: BlogPost) {
+  return {
+    title: post.frontmatter.title,
+    subtitle: post.frontmatter.description,
+    contentMarkdown: crosspostBody(post, 'markdown'),
+    tags: hashnodeTags(post.frontmatter.tags),
+    originalArticleURL: canonicalUrl(post),
+  };
+}
+
+/** Hashnode has no drafts through the API, so drafts aren't published */
+function publishInput(post: BlogPost) {
+  if (post.frontmatter.draft) {
+    throw new Error('Drafts are not cross-posted to Hashnode; set draft: false first');
+  }
+  return postInput(post);
+}
+
+export const hashnode: CrosspostProvider = {
+  key: 'hashnode',
+  label: 'Hashnode',
+  env: ['HASHNODE_TOKEN', 'HASHNODE_PUBLICATION_ID'],
+
+  async publish(post) {
+    const data = await graphql<{ publishPost: { post: HashnodePost } }>(
+      `mutation PublishPost($input: PublishPostInput!) { publishPost(input: $input) { post { ${POST_FIELDS} } } }`,
+      { input: { ...publishInput(post), publicationId: process.env.HASHNODE_PUBLICATION_ID } },
+    );
+    return { id: data.publishPost.post.id, url: data.publishPost.post.url, published: true };
+  },
+
+  preview: publishInput,
+
+  async update(post, state) {
+    const data = await graphql<{ updatePost: { post: HashnodePost } }>(
+      `mutation UpdatePost($input: UpdatePostInput!) { updatePost(input: $input) { post { ${POST_FIELDS} } } }`,
+      { input: { ...postInput(post), id: stateId(hashnode, state) } },
+    );
+    return { id: data.updatePost.post.id, url: data.updatePost.post.url, published: true };
+  },
+
+  async status(post, state) {
+    const id = stateId(hashnode, state);
+    const data = await graphql<{ post: HashnodePost | null }>(
+      `query Post($id: ID!) { post(id: $id) { ${POST_FIELDS} } }`,
+      { id },
+    );
+    if (!data.post) throw new Error(`Post ${id} was not found on Hashnode`);
+
+    return {
+      url: data.post.url,
+      published: true,
+      differences: compareArticles(
+        {
+          title: post.frontmatter.title,
+          body: postInput(post).contentMarkdown,
+          tags: hashnodeTags(post.frontmatter.tags).map(tag => tag.slug),
+          published: true,
+        },
+        {
+          title: data.post.title,
+          body: data.post.content.markdown,
+          tags: data.post.tags.map(tag => tag.slug),
+          published: true,
+        },
+      ),
+    };
+  },
+};
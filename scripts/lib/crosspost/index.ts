@@ -0,0 +1,51 @@
+import type { CrosspostProviderKey } from '../../../src/lib/crosspost';
+import type { FrontmatterField } from '../blog';
+import { bluesky } from './bluesky';
+import { devTo } from './devto';
+import { hashnode } from './hashnode';
+import { mastodon } from './mastodon';
+import { medium } from './medium';
+import type { CrosspostProvider, CrosspostResult } from './provider';
+
+/**
+ * Every cross-post provider, one per key in CROSSPOST_PROVIDERS. A new
+ * platform needs a key there (so the content schema accepts it) and a
+ * provider here.
+ */
+export const PROVIDERS: Record<CrosspostProviderKey, CrosspostProvider> = {
+  devTo,
+  hashnode,
+  medium,
+  mastodon,
+  bluesky,
+};
+
+/**
+ * Providers from a comma-separated `--to` list, matched case-insensitively
+ * by key, e.g. "devto,hashnode".
+ */
+export function resolveProviders(list: string): CrosspostProvider[] {
+  return list.split(',').map(name => name.trim()).filter(Boolean).map(name => {
+    const provider = Object.values(PROVIDERS).find(candidate => candidate.key.toLowerCase() === name.toLowerCase());
+    if (!provider) {
+      const available = Object.keys(PROVIDERS).map(key => key.toLowerCase()).join(', ');
+      throw new Error(`Unknown cross-post provider "${name}". Available: ${available}`);
+    }
+    return provider;
+  });
+}
+
+/**
+ * The `crosspost.<key>` frontmatter recording where a post ended up.
+ */
+export function stateFields(provider: CrosspostProvider, result: CrosspostResult): FrontmatterField[] {
+  return [
+    [['crosspost', provider.key, 'published'], result.published],
+    [['crosspost', provider.key, 'id'], result.id],
+    [['crosspost', provider.key, 'url'], result.url],
+    [['crosspost', provider.key, 'syncedAt'], new Date().toISOString()],
+  ];
+}
+
+export { missingEnv } from './provider';
+export type { CrosspostProvider, CrosspostResult, CrosspostStatus } from './provider';
@@ -0,0 +1,70 @@
+import type { BlogPost } from '../blog';
+import { canonicalUrl } from '../blog';
+import type { CrosspostProvider, CrosspostResult } from './provider';
+import { announcement, envUrl, requestJson, stateId } from './provider';
+
+/**
+ * Mastodon announcement provider: a public status linking to the post on
+ * the site (https://docs.joinmastodon.org/methods/statuses/). `update`
+ * edits the status, e.g. after the title or description changed.
+ */
+
+/** Default character limit of a Mastodon status */
+const MAX_LENGTH = 500;
+
+interface MastodonStatus {
+  id: string;
+  url: string;
+  content: string;
+}
+
+function request<T>(method: string, endpoint: string, body?: unknown): Promise<T> {
+  const instance = envUrl('MASTODON_URL', '');
+  return requestJson('Mastodon', `${instance}/api/v1${endpoint}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${process.env.MASTODON_TOKEN ?? ''}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+function statusText(post: BlogPost): string {
+  if (post.frontmatter.draft) {
+    throw new Error('Drafts are not announced on Mastodon; set draft: false first');
+  }
+  return announcement(post, canonicalUrl(post), MAX_LENGTH);
+}
+
+function toResult(status: MastodonStatus): CrosspostResult {
+  return { id: status.id, url: status.url, published: true };
+}
+
+export const mastodon: CrosspostProvider = {
+  key: 'mastodon',
+  label: 'Mastodon',
+  env: ['MASTODON_URL', 'MASTODON_TOKEN'],
+
+  async publish(post) {
+    return toResult(await request<MastodonStatus>('POST', '/statuses', { status: statusText(post), visibility: 'public' }));
+  },
+
+  preview(post) {
+    return { status: statusText(post), visibility: 'public' };
+  },
+
+  async update(post, state) {
+    return toResult(await request<MastodonStatus>('PUT', `/statuses/${stateId(mastodon, state)}`, { status: statusText(post) }));
+  },
+
+  async status(post, state) {
+    const status = await request<MastodonStatus>('GET', `/statuses/${stateId(mastodon, state)}`);
+    const url = canonicalUrl(post);
+    return {
+      url: status.url,
+      published: true,
+      differences: status.content.includes(url) ? [] : [`link: the status doesn't link to ${url}`],
+    };
+  },
+};
@@ -0,0 +1,62 @@
+import type { BlogPost } from '../blog';
+import { canonicalUrl } from '../blog';
+import type { CrosspostProvider } from './provider';
+import { envUrl, requestJson } from './provider';
+import { crosspostBody } from './transform';
+
+/**
+ * Medium cross-post provider, via the integration-token API
+ * (https://github.com/Medium/medium-api-docs). Medium no longer issues new
+ * tokens, and the API can only create posts: they can't be updated or
+ * read back, so there is no `update` or `status`.
+ */
+
+const MEDIUM_API_URL = envUrl('MEDIUM_API_URL', 'https://api.medium.com/v1');
+
+/** Medium allows at most 5 tags per post */
+const MAX_TAGS = 5;
+
+interface MediumResponse<T> {
+  data: T;
+}
+
+function request<T>(method: string, endpoint: string, body?: unknown): Promise<MediumResponse<T>> {
+  return requestJson('Medium', `${MEDIUM_API_URL}${endpoint}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+      Authorization: `Bearer ${process.env.MEDIUM_TOKEN ?? ''}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+function toMediumPost(post: BlogPost) {
+  return {
+    title: post.frontmatter.title,
+    contentFormat: 'markdown',
+    content: `# ${post.frontmatter.title}\n\n${crosspostBody(post, 'markdown')}`,
+    tags: (post.frontmatter.tags ?? []).slice(0, MAX_TAGS),
+    canonicalUrl: canonicalUrl(post),
+    publishStatus: post.frontmatter.draft ? 'draft' : 'public',
+  };
+}
+
+export const medium: CrosspostProvider = {
+  key: 'medium',
+  label: 'Medium',
+  env: ['MEDIUM_TOKEN'],
+
+  async publish(post) {
+    const { data: user } = await request<{ id: string }>('GET', '/me');
+    const { data } = await request<{ id: string; url: string; publishStatus: string }>(
+      'POST',
+      `/users/${user.id}/posts`,
+      toMediumPost(post),
+    );
+    return { id: data.id, url: data.url, published: data.publishStatus === 'public' };
+  },
+
+  preview: toMediumPost,
+};
@@ -0,0 +1,139 @@
+import matter from 'gray-matter';
+import type { CrosspostProviderKey, CrosspostState } from '../../../src/lib/crosspost';
+import type { BlogPost } from '../blog';
+
+/**
+ * A platform blog posts can be cross-posted to.
+ *
+ * `publish` and `preview` are required; `update`, `unpublish` and `status`
+ * are left out where the platform's API can't do them (Medium can't edit
+ * or read posts back, announcements can't be edited).
+ */
+export interface CrosspostProvider {
+  /** Key under `crosspost` in the frontmatter; lowercased for `--to` */
+  key: CrosspostProviderKey;
+  /** Display name, e.g. "DEV.to" */
+  label: string;
+  /** Environment variables that must be set to use it */
+  env: string[];
+  publish(post: BlogPost): Promise<CrosspostResult>;
+  /** What `publish` and `update` would send, shown by --dry-run instead */
+  preview(post: BlogPost): unknown;
+  update?(post: BlogPost, state: CrosspostState): Promise<CrosspostResult>;
+  unpublish?(post: BlogPost, state: CrosspostState): Promise<CrosspostResult>;
+  status?(post: BlogPost, state: CrosspostState): Promise<CrosspostStatus>;
+}
+
+/** Where a post ended up, written back to its frontmatter */
+export interface CrosspostResult {
+  id: number | string;
+  url: string;
+  published: boolean;
+}
+
+export interface CrosspostStatus {
+  url: string;
+  published: boolean;
+  /** How the remote copy differs from the local post; empty when in sync */
+  differences: string[];
+}
+
+/** The parts of an article compared by `status` */
+export interface ArticleSnapshot {
+  title: string;
+  body: string;
+  tags: string[];
+  published: boolean;
+}
+
+/**
+ * Environment variables a provider needs that aren't set.
+ */
+export function missingEnv(provider: CrosspostProvider): string[] {
+  return provider.env.filter(name => !process.env[name]);
+}
+
+/**
+ * An environment variable's value, or the default. Trailing slashes are
+ * dropped so it can be used as a base URL.
+ */
+export function envUrl(name: string, fallback: string): string {
+  return (process.env[name] || fallback).replace(/\/+$/, '');
+}
+
+/**
+ * The post's ID on a platform, or an error if it hasn't been posted there.
+ */
+export function stateId(provider: CrosspostProvider, state: CrosspostState): string {
+  if (state.id === undefined) {
+    throw new Error(`This post has no ${provider.label} ID (crosspost.${provider.key}.id)`);
+  }
+  return String(state.id);
+}
+
+/**
+ * Fetch JSON, failing with the status and response text.
+ */
+export async function requestJson<T>(label: string, url: string, init: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`${label} API error (${response.status} ${response.statusText}): ${text}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+function normalizeBody(body: string): string {
+  // Some platforms keep a frontmatter block at the top of the stored markdown
+  const { content } = matter(body.replace(/\r\n/g, '\n'));
+  return content.trim();
+}
+
+/**
+ * Differences between the article a post would publish and the remote
+ * copy, e.g. "tags: local [astro, webdev], remote [webdev]". Empty when
+ * they match.
+ */
+export function compareArticles(local: ArticleSnapshot, remote: ArticleSnapshot): string[] {
+  const differences: string[] = [];
+  if (local.title !== remote.title) {
+    differences.push(`title: local "${local.title}", remote "${remote.title}"`);
+  }
+
+  const localBody = normalizeBody(local.body).split('\n');
+  const remoteBody = normalizeBody(remote.body).split('\n');
+  if (localBody.join('\n') !== remoteBody.join('\n')) {
+    const firstDifference = localBody.findIndex((line, index) => line !== remoteBody[index]);
+    const line = firstDifference === -1 ? localBody.length + 1 : firstDifference + 1;
+    differences.push(`body: differs from line ${line} (local ${localBody.length} lines, remote ${remoteBody.length})`);
+  }
+
+  const localTags = [...local.tags].sort();
+  const remoteTags = [...remote.tags].sort();
+  if (localTags.join(',') !== remoteTags.join(',')) {
+    differences.push(`tags: local [${localTags.join(', ')}], remote [${remoteTags.join(', ')}]`);
+  }
+
+  if (local.published !== remote.published) {
+    differences.push(`published: local ${local.published}, remote ${remote.published}`);
+  }
+  return differences;
+}
+
+/**
+ * The short text announcing a post on a social network: title,
+ * description and link, plus hashtags while they fit in `limit` characters.
+ */
+export function announcement(post: BlogPost, url: string, limit: number): string {
+  const { title, description, tags = [] } = post.frontmatter;
+  let text = `${title}\n\n${description}\n\n${url}`;
+  if (text.length > limit) text = `${title}\n\n${url}`;
+
+  const hashtags = tags.map(tag => `#${tag.replace(/[^\p{L}\p{N}_]/gu, '')}`).filter(tag => tag.length > 1);
+  for (const hashtag of hashtags) {
+    const separator = text.endsWith(url) ? '\n\n' : ' ';
+    if (text.length + separator.length + hashtag.length > limit) break;
+    text += separator + hashtag;
+  }
+  return text;
+}
@@ -0,0 +1,192 @@
+import fs from 'fs';
+import path from 'path';
+import type { BlogPost } from '../blog';
+import { SITE_URL, canonicalUrl } from '../blog';
+
+/**
+ * Turns a post's markdown into something other platforms can render:
+ * relative links and images become absolute camarneiro.com URLs, MDX
+ * imports are dropped and components become DEV.to liquid tags or plain
+ * markdown, and a footer links back to the original. Code blocks and
+ * inline code are left as they are.
+ */
+
+/**
+ * `devto` renders components as liquid tags (https://dev.to/p/editor_guide),
+ * `markdown` as links any markdown renderer understands.
+ */
+export type BodyFormat = 'devto' | 'markdown';
+
+type Props = Record<string, string | true>;
+
+interface ComponentRule {
+  liquid?(props: Props): string | undefined;
+  markdown(props: Props): string | undefined;
+}
+
+/**
+ * Embed components posts may use, by name. Props follow astro-embed's
+ * components, whose `id` is either an ID or the full URL.
+ */
+const COMPONENTS: Record<string, ComponentRule> = {
+  YouTube: {
+    liquid: props => youTubeId(props) && `{% youtube ${youTubeId(props)} %}`,
+    markdown: props => {
+      const id = youTubeId(props);
+      if (!id) return undefined;
+      const title = typeof props.title === 'string' ? props.title : 'Watch on YouTube';
+      return `[![${title}](https://img.youtube.com/vi/${id}/hqdefault.jpg)](https://www.youtube.com/watch?v=${id})`;
+    },
+  },
+  Vimeo: {
+    liquid: props => vimeoId(props) && `{% vimeo ${vimeoId(props)} %}`,
+    markdown: props => vimeoId(props) && `[Watch on Vimeo](https://vimeo.com/${vimeoId(props)})`,
+  },
+  Tweet: {
+    liquid: props => stringProp(props, 'id') && `{% embed ${stringProp(props, 'id')} %}`,
+    markdown: props => stringProp(props, 'id') && `[View the post on X](${stringProp(props, 'id')})`,
+  },
+  CodePen: {
+    liquid: props => stringProp(props, 'url', 'id') && `{% codepen ${stringProp(props, 'url', 'id')} %}`,
+    markdown: props => stringProp(props, 'url', 'id') && `[Open the CodePen](${stringProp(props, 'url', 'id')})`,
+  },
+  Gist: {
+    liquid: props => stringProp(props, 'url', 'id') && `{% gist ${stringProp(props, 'url', 'id')} %}`,
+    markdown: props => stringProp(props, 'url', 'id') && `[View the gist](${stringProp(props, 'url', 'id')})`,
+  },
+  LinkPreview: {
+    liquid: props => stringProp(props, 'id', 'url') && `{% embed ${stringProp(props, 'id', 'url')} %}`,
+    markdown: props => stringProp(props, 'id', 'url') && `<${stringProp(props, 'id', 'url')}>`,
+  },
+};
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const INLINE_CODE = /(`+)[\s\S]*?\1/g;
+const ATTRIBUTE = /([A-Za-z_][\w:.-]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|\{\s*(?:"([^"]*)"|'([^']*)'|`([^`]*)`|([^}]*?))\s*\}))?/g;
+const COMPONENT = /<([A-Z][\w.]*)((?:\s[^>]*?)?)(?:\/>|>([\s\S]*?)<\/\1\s*>)/g;
+
+function stringProp(props: Props, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = props[name];
+    if (typeof value === 'string' && value) return value;
+  }
+  return undefined;
+}
+
+function youTubeId(props: Props): string | undefined {
+  const id = stringProp(props, 'id', 'videoId');
+  return id?.match(/(?:youtu\.be\/|[?&]v=|\/embed\/|\/shorts\/)([\w-]{11})/)?.[1] ?? id;
+}
+
+function vimeoId(props: Props): string | undefined {
+  const id = stringProp(props, 'id');
+  return id?.match(/vimeo\.com\/(?:video\/)?(\d+)/)?.[1] ?? id;
+}
+
+function parseProps(attributes: string): Props {
+  const props: Props = {};
+  for (const match of attributes.matchAll(ATTRIBUTE)) {
+    const value = match.slice(2).find(group => group !== undefined);
+    props[match[1]] = value ?? true;
+  }
+  return props;
+}
+
+/**
+ * A link or image URL as an absolute URL on the site. Paths are relative
+ * to /blog/, where posts live, so `./other-post.md` becomes
+ * https://camarneiro.com/blog/other-post. Absolute URLs, anchors and
+ * other schemes (mailto:, …) are left alone.
+ */
+function absoluteUrl(url: string, image: boolean): string {
+  if (!url || url.startsWith('#') || url.startsWith('//') || /^[a-z][a-z\d+.-]*:/i.test(url)) return url;
+
+  const resolved = new URL(url.replace(/\.mdx?(?=$|[?#])/, ''), `${SITE_URL}/blog/`);
+  if (image && !fs.existsSync(path.join(process.cwd(), 'public', decodeURIComponent(resolved.pathname)))) {
+    // Images next to the post are bundled by Astro under hashed names, so
+    // only those in public/ have a URL that can be linked to
+    console.warn(`⚠️  ${url} is not in public/, so ${resolved.href} may not load once cross-posted`);
+  }
+  return resolved.href;
+}
+
+function rewriteUrls(text: string): string {
+  return text
+    // ![alt](url "title"), first so images inside link text are done
+    .replace(/(!\[[^\]]*\]\(\s*<?)([^)\s>]+)/g, (_match, prefix: string, url: string) =>
+      `${prefix}${absoluteUrl(url, true)}`)
+    // [text](url "title"), where the text may hold an image: [![alt](src)](url)
+    .replace(/((?<!!)\[(?:[^[\]]|\[[^[\]]*\])*\]\(\s*<?)([^)\s>]+)/g, (_match, prefix: string, url: string) =>
+      `${prefix}${absoluteUrl(url, false)}`)
+    // [label]: url "title"
+    .replace(/^( {0,3}\[[^\]]+\]:\s*<?)(\S+?)(?=>?(?:\s|$))/gm, (_match, prefix: string, url: string) =>
+      `${prefix}${absoluteUrl(url, /\.(?:png|jpe?g|gif|svg|webp|avif)$/i.test(url))}`)
+    // <img src="…"> and <a href="…">
+    .replace(/(<(img|a|source)\b[^>]*?\s(?:src|href)=)(["'])([^"']*)\3/gi, (_match, prefix: string, tag: string, quote: string, url: string) =>
+      `${prefix}${quote}${absoluteUrl(url, tag.toLowerCase() !== 'a')}${quote}`);
+}
+
+function rewriteComponents(text: string, post: BlogPost, format: BodyFormat): string {
+  return text.replace(COMPONENT, (_match, name: string, attributes: string, children: string | undefined) => {
+    const rule = COMPONENTS[name];
+    const props = parseProps(attributes);
+    const replacement = rule && ((format === 'devto' && rule.liquid?.(props)) || rule.markdown(props));
+    if (replacement) return replacement;
+
+    // Anything else keeps its content, or points readers to the original
+    if (children !== undefined) return rewriteComponents(children.trim(), post, format);
+    return `*[${name} — view it in the original post](${canonicalUrl(post)})*`;
+  });
+}
+
+/**
+ * Applies `transform` to the prose of a markdown document, skipping fenced
+ * code blocks and inline code.
+ */
+function outsideCode(markdown: string, transform: (text: string) => string): string {
+  const blocks: { code: boolean; lines: string[] }[] = [];
+  let fence: string | undefined;
+
+  for (const line of markdown.split('\n')) {
+    const marker = line.match(FENCE)?.[1];
+    const code = fence !== undefined || marker !== undefined;
+    if (fence === undefined && marker) {
+      fence = marker;
+    } else if (fence !== undefined && marker && marker[0] === fence[0] && marker.length >= fence.length && !line.trim().slice(marker.length)) {
+      fence = undefined;
+    }
+
+    const last = blocks[blocks.length - 1];
+    if (last?.code === code) last.lines.push(line);
+    else blocks.push({ code, lines: [line] });
+  }
+
+  return blocks.map(({ code, lines }) => {
+    const text = lines.join('\n');
+    if (code) return text;
+
+    // Stash inline code so transforms can't reach it, then put it back
+    const spans: string[] = [];
+    const stashed = text.replace(INLINE_CODE, span => `\u0000${spans.push(span) - 1}\u0000`);
+    return transform(stashed).replace(/\u0000(\d+)\u0000/g, (_match, index: string) => spans[Number(index)]);
+  }).join('\n');
+}
+
+/**
+ * The body to send to another platform for a post.
+ */
+export function crosspostBody(post: BlogPost, format: BodyFormat): string {
+  const mdx = post.filePath.endsWith('.mdx');
+  let body = outsideCode(post.content, text => {
+    if (mdx) {
+      // ESM imports and exports only mean something to the MDX compiler
+      text = text.replace(/^(?:import|export)\s[^\n]*(?:\n(?!\s*\n)[^\n]*)*\n?/gm, '');
+      text = rewriteComponents(text, post, format);
+    }
+    return rewriteUrls(text);
+  });
+
+  body = body.replace(/\n{3,}/g, '\n\n').trim();
+  const url = canonicalUrl(post);
+  return `${body}\n\n---\n\n*Originally published at [${new URL(url).host}](${url}).*\n`;
+}
@@ -0,0 +1,62 @@
+/**
+ * Self-hosted fonts for the PDF generators.
+ *
+ * The @font-face rules in assets/fonts/fonts.css (shared with the site) are
+ * inlined with the font files as data URIs, so a page loaded with
+ * `setContent` renders the same with or without network access.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { Page } from 'puppeteer-core';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const FONTS_DIR = path.join(__dirname, '..', '..', 'assets', 'fonts');
+
+/** Families the CV print styles are set in */
+export const CV_FONT_FAMILIES = ['Inter'];
+
+/**
+ * The @font-face rules for the given families, with every font file
+ * embedded. Throws if a family isn't in fonts.css or a file is missing.
+ */
+export function embeddedFontFaces(families: string[] = CV_FONT_FAMILIES): string {
+  const css = fs.readFileSync(path.join(FONTS_DIR, 'fonts.css'), 'utf-8');
+  const rules = css.match(/@font-face\s*\{[^}]*\}/g) ?? [];
+
+  return families
+    .map(family => {
+      const faces = rules.filter(rule => rule.includes(`font-family: '${family}';`));
+      if (faces.length === 0) {
+        throw new Error(`Font family "${family}" is not declared in ${path.join(FONTS_DIR, 'fonts.css')}`);
+      }
+      return faces
+        .map(rule => rule.replace(/url\('\.\/([^']+)'\)/g, (_, file: string) => {
+          const data = fs.readFileSync(path.join(FONTS_DIR, file)).toString('base64');
+          return `url('data:font/woff2;base64,${data}')`;
+        }))
+        .join('\n');
+    })
+    .join('\n');
+}
+
+/**
+ * Wait for the page's fonts and fail if any of the families didn't load,
+ * rather than quietly rendering with a fallback font.
+ */
+export async function waitForFonts(page: Page, families: string[] = CV_FONT_FAMILIES): Promise<void> {
+  const loaded = await page.evaluate(async () => {
+    await document.fonts.ready;
+    return [...document.fonts]
+      .filter(face => face.status === 'loaded')
+      .map(face => face.family.replace(/^["']|["']$/g, ''));
+  });
+
+  const missing = families.filter(family => !loaded.includes(family));
+  if (missing.length > 0) {
+    throw new Error(`Fonts did not load: ${missing.join(', ')}`);
+  }
+}
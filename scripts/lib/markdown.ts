@@ -0,0 +1,243 @@
+/**
+ * Markdown for the CV: rendering CV data to markdown (shared by the
+ * markdown export and the tailoring step) and rendering that markdown back
+ * to HTML for cv:pdf:tailored.
+ */
+
+import type { PhrasingContent, Root, RootContent } from 'mdast';
+import rehypeStringify from 'rehype-stringify';
+import remarkParse from 'remark-parse';
+import remarkRehype from 'remark-rehype';
+import { unified } from 'unified';
+import { visit } from 'unist-util-visit';
+import type { CVData } from '../../src/types/cv';
+import { DEFAULT_LOCALE, cvLabels, formatDate } from '../../src/lib/cv';
+
+/**
+ * Escape CV text so it renders as written. The CV data is plain text, so
+ * `*`, backticks, brackets, `<` and `_` at a word boundary are escaped
+ * everywhere, and `#`, `>` and list markers only at the start of a line.
+ */
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*[\]<]|(?<![\p{L}\p{N}])_|_(?![\p{L}\p{N}])/gu, char => `\\${char}`)
+    .replace(/^(\s*)([#>+=-]|\d+[.)])(?=\s|$)/gm, (_match, indent: string, marker: string) =>
+      `${indent}${marker.replace(/[^\d]/, char => `\\${char}`)}`);
+}
+
+/**
+ * The CV as markdown, with headings and dates in the given locale. The CV
+ * data is expected to be localized already.
+ */
+export function exportToMarkdown(cv: CVData, locale: string = DEFAULT_LOCALE): string {
+  const labels = cvLabels(locale);
+  const lines: string[] = [];
+
+  // Header
+  lines.push(`# ${escapeMarkdown(cv.personal.name)}`);
+  lines.push(`**${escapeMarkdown(cv.personal.title)}**`);
+  lines.push('');
+  const contact = [escapeMarkdown(cv.personal.location), cv.personal.email];
+  if (cv.personal.phone) contact.push(escapeMarkdown(cv.personal.phone));
+  lines.push(contact.join(' | '));
+  if (cv.personal.website) lines.push(`Website: ${cv.personal.website}`);
+  if (cv.personal.linkedin) lines.push(`LinkedIn: ${cv.personal.linkedin}`);
+  if (cv.personal.github) lines.push(`GitHub: ${cv.personal.github}`);
+  lines.push('');
+
+  // Summary
+  lines.push(`## ${labels.summary}`);
+  lines.push('');
+  lines.push(escapeMarkdown(cv.summary));
+  lines.push('');
+
+  // Experience
+  lines.push(`## ${labels.experience}`);
+  lines.push('');
+
+  for (const exp of cv.experience) {
+    const dates = `${formatDate(exp.startDate, locale)} - ${formatDate(exp.endDate, locale)}`;
+    lines.push(`### ${escapeMarkdown(exp.title)} ${labels.at} ${escapeMarkdown(exp.company)}`);
+    lines.push(`*${escapeMarkdown(exp.location)} | ${dates}*`);
+    lines.push('');
+    lines.push(escapeMarkdown(exp.description));
+    lines.push('');
+
+    if (exp.achievements.length > 0) {
+      lines.push(`**${labels.keyAchievements}:**`);
+      for (const achievement of exp.achievements) {
+        lines.push(`- ${escapeMarkdown(achievement)}`);
+      }
+      lines.push('');
+    }
+
+    if (exp.skills.length > 0) {
+      lines.push(`**${labels.technologies}:** ${escapeMarkdown(exp.skills.join(', '))}`);
+      lines.push('');
+    }
+  }
+
+  // Skills
+  lines.push(`## ${labels.skills}`);
+  lines.push('');
+
+  for (const category of cv.skills.technical) {
+    lines.push(`**${escapeMarkdown(category.category)}:** ${escapeMarkdown(category.skills.join(', '))}`);
+    lines.push('');
+  }
+
+  if (cv.skills.soft && cv.skills.soft.length > 0) {
+    lines.push(`**${labels.softSkills}:** ${escapeMarkdown(cv.skills.soft.join(', '))}`);
+    lines.push('');
+  }
+
+  // Education
+  lines.push(`## ${labels.education}`);
+  lines.push('');
+
+  for (const edu of cv.education) {
+    const dates = `${edu.startDate} - ${edu.endDate || labels.present}`;
+    lines.push(`### ${escapeMarkdown(edu.degree)}`);
+    lines.push(`*${escapeMarkdown(edu.institution)}, ${escapeMarkdown(edu.location)} | ${dates}*`);
+    if (edu.description) {
+      lines.push('');
+      lines.push(escapeMarkdown(edu.description));
+    }
+    lines.push('');
+  }
+
+  // Projects (if any visible)
+  if (cv.projects && cv.projects.length > 0) {
+    lines.push(`## ${labels.projects}`);
+    lines.push('');
+
+    for (const proj of cv.projects) {
+      lines.push(`### ${escapeMarkdown(proj.name)}`);
+      if (proj.startDate) {
+        lines.push(`*${formatDate(proj.startDate, locale)} - ${formatDate(proj.endDate ?? null, locale)}*`);
+      }
+      lines.push('');
+      lines.push(escapeMarkdown(proj.description));
+      lines.push('');
+
+      if (proj.url) lines.push(`**URL:** ${proj.url}`);
+      if (proj.github) lines.push(`**GitHub:** ${proj.github}`);
+
+      if (proj.highlights.length > 0) {
+        lines.push('');
+        lines.push(`**${labels.highlights}:**`);
+        for (const highlight of proj.highlights) {
+          lines.push(`- ${escapeMarkdown(highlight)}`);
+        }
+      }
+
+      if (proj.technologies.length > 0) {
+        lines.push('');
+        lines.push(`**${labels.technologies}:** ${escapeMarkdown(proj.technologies.join(', '))}`);
+      }
+      lines.push('');
+    }
+  }
+
+  // Certifications (if any visible)
+  if (cv.certifications && cv.certifications.length > 0) {
+    lines.push(`## ${labels.certifications}`);
+    lines.push('');
+
+    for (const cert of cv.certifications) {
+      lines.push(`- **${escapeMarkdown(cert.name)}** - ${escapeMarkdown(cert.issuer)} (${formatDate(cert.date, locale)})`);
+      if (cert.credentialId) lines.push(`  ${labels.credentialId}: ${escapeMarkdown(cert.credentialId)}`);
+      if (cert.url) lines.push(`  ${cert.url}`);
+    }
+    lines.push('');
+  }
+
+  // Languages
+  if (cv.languages && cv.languages.length > 0) {
+    lines.push(`## ${labels.languages}`);
+    lines.push('');
+    for (const lang of cv.languages) {
+      lines.push(`- **${escapeMarkdown(lang.name)}:** ${labels.proficiency[lang.proficiency]}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Add the CV styling classes to the markdown tree:
+ * - `strong.label` for bold text ending in a colon, e.g. `**Technologies:**`
+ * - `p.meta` for paragraphs that are only emphasis, e.g. `*Porto | 2019 - 2021*`
+ */
+function remarkCVClasses() {
+  return (tree: Root) => {
+    visit(tree, 'strong', node => {
+      const last = node.children[node.children.length - 1];
+      if (last?.type === 'text' && last.value.trimEnd().endsWith(':')) {
+        node.data = { ...node.data, hProperties: { className: ['label'] } };
+      }
+    });
+    visit(tree, 'paragraph', node => {
+      if (node.children.length === 1 && node.children[0].type === 'emphasis') {
+        node.data = { ...node.data, hProperties: { className: ['meta'] } };
+      }
+    });
+  };
+}
+
+/**
+ * Turn single line breaks into `<br>`: CV markdown puts contact details on
+ * consecutive lines, which CommonMark would otherwise join into one.
+ */
+function remarkLineBreaks() {
+  return (tree: Root) => {
+    visit(tree, 'text', (node, index, parent) => {
+      if (!parent || index === undefined || !node.value.includes('\n')) return;
+      const replacement: PhrasingContent[] = node.value
+        .split(/\r?\n/)
+        .flatMap((value, i) => (i === 0 ? [{ type: 'text', value }] : [{ type: 'break' }, { type: 'text', value }]));
+      (parent.children as PhrasingContent[]).splice(index, 1, ...replacement);
+      return index + replacement.length;
+    });
+  };
+}
+
+/**
+ * The text of a markdown node without its formatting.
+ */
+export function plainText(node: RootContent | Root): string {
+  if ('value' in node) return node.value;
+  if ('children' in node) return (node.children as RootContent[]).map(plainText).join('');
+  return '';
+}
+
+/**
+ * Parse CV markdown into a syntax tree, e.g. to drop content before
+ * rendering it with `renderMarkdownTree`.
+ */
+export function parseMarkdown(markdown: string): Root {
+  return unified().use(remarkParse).parse(markdown);
+}
+
+/**
+ * Render a markdown tree to HTML, keeping single line breaks. Raw HTML in
+ * the markdown is dropped rather than passed through.
+ */
+export function renderMarkdownTree(tree: Root): string {
+  const processor = unified()
+    .use(remarkLineBreaks)
+    .use(remarkCVClasses)
+    .use(remarkRehype)
+    .use(rehypeStringify);
+  // The plugins change the tree in place, so keep the caller's copy intact
+  return processor.stringify(processor.runSync(structuredClone(tree)));
+}
+
+/**
+ * Render CommonMark to HTML, keeping single line breaks. Raw HTML in the
+ * markdown is dropped rather than passed through.
+ */
+export function renderMarkdown(markdown: string): string {
+  return renderMarkdownTree(parseMarkdown(markdown));
+}
@@ -0,0 +1,234 @@
+/**
+ * Page budget fitting for the PDF generators.
+ *
+ * Renders the CV and, while the PDF runs over the page budget, takes it
+ * down step by step: the oldest roles go first, then the lowest-priority
+ * achievements (the last ones listed, oldest roles first), then the
+ * spacing is tightened and finally the print scale is lowered. The fit is
+ * measured on the rendered PDF itself, so page breaks count too.
+ *
+ * The content steps go through a `FitAdapter`, which lets the same logic
+ * work on CV data (generate:pdf) and on tailored markdown (cv:pdf:tailored).
+ */
+
+import type { Page, PDFOptions } from 'puppeteer-core';
+import type { List, Root } from 'mdast';
+import { PDFDocument } from 'pdf-lib';
+import type { CVData, Experience } from '../../src/types/cv';
+import { isSectionHeading } from '../../src/lib/cv';
+import { waitForFonts } from './fonts';
+import { plainText } from './markdown';
+import type { PrintOptions } from './print-template';
+import { DEFAULT_PRINT_OPTIONS, renderPrintHTML } from './print-template';
+
+/** The most recent roles are never dropped */
+const MIN_EXPERIENCE = 3;
+/** Every role keeps at least this many achievements */
+const MIN_ACHIEVEMENTS = 1;
+const SCALE_STEP = 0.05;
+const MIN_SCALE = 0.75;
+
+/** Spacing overrides for the tightening step, shared by both templates */
+const TIGHT_CSS = `
+  body { line-height: 1.25 !important; }
+  section { margin-bottom: 5pt !important; }
+  article { margin-bottom: 3pt !important; padding-bottom: 2pt !important; }
+  h2 { margin-bottom: 3pt !important; }
+  h2:not(:first-child) { margin-top: 8pt !important; }
+  h3:not(:first-child) { margin-top: 5pt !important; }
+  h2 + h3 { margin-top: 0 !important; }
+  p { margin-bottom: 1pt !important; }
+  ul, ol { margin-top: 1pt !important; margin-bottom: 3pt !important; }
+  li { margin-bottom: 0 !important; }
+`;
+
+/**
+ * The content the fitter can take out. Each step removes one item and
+ * describes it, or returns undefined when there is nothing left to remove.
+ */
+export interface FitAdapter {
+  /** The current content as a complete HTML document */
+  render(): string;
+  dropOldestExperience(): string | undefined;
+  trimAchievement(): string | undefined;
+}
+
+export interface FitResult {
+  pdf: Uint8Array;
+  /** The HTML the PDF was rendered from */
+  html: string;
+  pages: number;
+  /** Whether the PDF is within the page budget */
+  fits: boolean;
+  /** Content removed to fit, in order */
+  removed: string[];
+  /** Spacing and scale changes, in order */
+  adjustments: string[];
+}
+
+function truncate(text: string, length = 70): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
+
+/**
+ * Count the pages of a PDF.
+ */
+export async function countPages(pdf: Uint8Array): Promise<number> {
+  return (await PDFDocument.load(pdf)).getPageCount();
+}
+
+async function renderPDF(page: Page, html: string, options: PDFOptions, tight: boolean): Promise<Uint8Array> {
+  await page.setContent(html, {
+    waitUntil: 'networkidle0',
+    timeout: 30000,
+  });
+  if (tight) await page.addStyleTag({ content: TIGHT_CSS });
+  await waitForFonts(page);
+
+  return page.pdf(options);
+}
+
+/**
+ * Render the adapter's content to PDF, fitting it to `pages` if given.
+ * Without a page budget the content is rendered once, as is.
+ */
+export async function fitToPages(
+  page: Page,
+  adapter: FitAdapter,
+  options: PDFOptions,
+  pages?: number,
+): Promise<FitResult> {
+  const removed: string[] = [];
+  const adjustments: string[] = [];
+  let scale = options.scale ?? 1;
+  let tight = false;
+
+  const render = async () => {
+    const html = adapter.render();
+    const pdf = await renderPDF(page, html, { ...options, scale }, tight);
+    return { pdf, html, pages: await countPages(pdf) };
+  };
+
+  let result = await render();
+  const over = () => pages !== undefined && result.pages > pages;
+
+  const steps = [() => adapter.dropOldestExperience(), () => adapter.trimAchievement()];
+  for (const step of steps) {
+    while (over()) {
+      const item = step();
+      if (!item) break;
+      removed.push(item);
+      result = await render();
+    }
+  }
+
+  if (over()) {
+    tight = true;
+    adjustments.push('Tightened spacing');
+    result = await render();
+  }
+
+  while (over() && scale - SCALE_STEP >= MIN_SCALE - 1e-9) {
+    scale = Math.round((scale - SCALE_STEP) * 100) / 100;
+    adjustments.push(`Scaled to ${scale}`);
+    result = await render();
+  }
+
+  return { ...result, fits: !over(), removed, adjustments };
+}
+
+/**
+ * Print what fitting removed and changed, in the generators' console style.
+ */
+export function printFitReport(result: FitResult, pages: number) {
+  console.log(`   Pages: ${result.pages} (budget ${pages})`);
+  if (result.removed.length > 0 || result.adjustments.length > 0) {
+    console.log(`⚠️  Adjusted to fit ${pages} page${pages === 1 ? '' : 's'}:`);
+    for (const item of result.removed) console.log(`   - Removed ${item}`);
+    for (const item of result.adjustments) console.log(`   - ${item}`);
+  }
+  if (!result.fits) {
+    console.log(`⚠️  Still over the ${pages}-page budget after every fitting step`);
+  }
+}
+
+/**
+ * Fitting for the print template: works on a copy of the CV data.
+ */
+export function printFitAdapter(cv: CVData, options: PrintOptions = {}): FitAdapter {
+  const printOptions = { ...DEFAULT_PRINT_OPTIONS, ...options };
+  const experience: Experience[] = cv.experience
+    .slice(0, printOptions.maxExperience)
+    .map(exp => ({ ...exp, achievements: [...exp.achievements] }));
+
+  return {
+    render: () => renderPrintHTML({ ...cv, experience }, { ...printOptions, maxExperience: experience.length }),
+
+    dropOldestExperience() {
+      if (experience.length <= MIN_EXPERIENCE) return undefined;
+      const exp = experience.pop();
+      return exp && `experience: ${exp.title} at ${exp.company}`;
+    },
+
+    trimAchievement() {
+      for (const exp of [...experience].reverse()) {
+        if (exp.achievements.length > MIN_ACHIEVEMENTS) {
+          return `achievement (${exp.company}): ${truncate(exp.achievements.pop() ?? '')}`;
+        }
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Fitting for tailored markdown: roles are the `###` headings under the
+ * `## ...Experience` heading (in any language), achievements are the items of their lists.
+ */
+export function markdownFitAdapter(tree: Root, render: (tree: Root) => string): FitAdapter {
+  const content = tree.children;
+
+  /** Each role as [start, end) indices into the root's children */
+  const roles = (): [number, number][] => {
+    const start = content.findIndex(
+      node => node.type === 'heading' && node.depth === 2 && isSectionHeading(plainText(node), 'experience'),
+    );
+    if (start === -1) return [];
+
+    let end = content.findIndex((node, i) => i > start && node.type === 'heading' && node.depth <= 2);
+    if (end === -1) end = content.length;
+
+    const headings: number[] = [];
+    for (let i = start + 1; i < end; i++) {
+      const node = content[i];
+      if (node.type === 'heading' && node.depth === 3) headings.push(i);
+    }
+    return headings.map((index, i) => [index, headings[i + 1] ?? end]);
+  };
+
+  return {
+    render: () => render(tree),
+
+    dropOldestExperience() {
+      const found = roles();
+      if (found.length <= MIN_EXPERIENCE) return undefined;
+      const [start, end] = found[found.length - 1];
+      const title = plainText(content[start]);
+      content.splice(start, end - start);
+      return `experience: ${title}`;
+    },
+
+    trimAchievement() {
+      for (const [start, end] of roles().reverse()) {
+        const list = content
+          .slice(start, end)
+          .find((node): node is List => node.type === 'list' && node.children.length > MIN_ACHIEVEMENTS);
+        if (list) {
+          const item = list.children.pop();
+          return `achievement (${plainText(content[start])}): ${truncate(item ? plainText(item) : '')}`;
+        }
+      }
+      return undefined;
+    },
+  };
+}
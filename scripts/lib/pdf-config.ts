@@ -0,0 +1,145 @@
+/**
+ * Page setup for the PDF generators: paper size, margins, locale and
+ * output path.
+ *
+ * Settings come from named presets in src/data/pdf.json, overridden by CLI
+ * flags. The `default` preset applies when no `--preset` is given; without
+ * a config file the PDFs keep the original US Letter setup.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'astro/zod';
+import type { LowerCasePaperFormat, PDFOptions } from 'puppeteer-core';
+import { CVDataError, toJsonPath } from '../../src/lib/cv/schema';
+import { getOption } from './cli';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const PDF_CONFIG_PATH = path.join(__dirname, '..', '..', 'src', 'data', 'pdf.json');
+
+export const PAPER_SIZES = [
+  'letter', 'legal', 'tabloid', 'ledger', 'a0', 'a1', 'a2', 'a3', 'a4', 'a5', 'a6',
+] as const satisfies readonly LowerCasePaperFormat[];
+
+export interface PdfSettings {
+  /** Paper size, e.g. `a4` or `letter` */
+  paper: LowerCasePaperFormat;
+  /** Page margins as CSS shorthand, e.g. `0.3in 0.4in` or `8mm 10mm` */
+  margin: string;
+  /**
+   * Locale for dates, e.g. `en-GB`. The CV PDF also takes its headings and
+   * translations from it; tailored markdown is rendered as written.
+   */
+  locale: string;
+  /** Output path; when unset each generator derives one */
+  output?: string;
+}
+
+export type PdfPreset = Partial<PdfSettings>;
+export type PdfConfig = Record<string, PdfPreset>;
+
+export const DEFAULT_PDF_SETTINGS: PdfSettings = {
+  paper: 'letter',
+  margin: '0.3in 0.4in',
+  locale: 'en-US',
+};
+
+const LENGTH = /^\d+(\.\d+)?(in|cm|mm|px)$/;
+
+const presetSchema: z.ZodType<PdfPreset, z.ZodTypeDef, unknown> = z.object({
+  paper: z.string().transform(value => value.toLowerCase()).pipe(z.enum(PAPER_SIZES)).optional(),
+  margin: z.string().refine(value => parseMargin(value) !== undefined, 'Expected 1 to 4 lengths, e.g. "0.3in 0.4in"').optional(),
+  locale: z.string().refine(isLocale, 'Unknown locale').optional(),
+  output: z.string().optional(),
+}).strict();
+
+const configSchema: z.ZodType<PdfConfig, z.ZodTypeDef, unknown> = z.record(
+  z.string().regex(/^[a-z0-9-]+$/, 'Preset names must be lowercase kebab-case'),
+  presetSchema,
+);
+
+function isLocale(value: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(value).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse CSS margin shorthand ("top right bottom left", with the usual
+ * 1 to 3 value forms) into Puppeteer margins.
+ */
+export function parseMargin(value: string): PDFOptions['margin'] | undefined {
+  const parts = value.trim().split(/\s+/);
+  if (parts.length > 4 || !parts.every(part => LENGTH.test(part))) return undefined;
+  const [top, right = top, bottom = top, left = right] = parts;
+  return { top, right, bottom, left };
+}
+
+export function parsePdfConfig(data: unknown): PdfConfig {
+  const result = configSchema.safeParse(data);
+  if (!result.success) {
+    throw new CVDataError(
+      result.error.issues.map(issue => ({ path: toJsonPath(issue.path), message: issue.message })),
+      'PDF config',
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Read the PDF config from disk. A missing file simply means no presets.
+ */
+export function loadPdfConfig(filePath: string = PDF_CONFIG_PATH): PdfConfig {
+  if (!fs.existsSync(filePath)) return {};
+  return parsePdfConfig(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+}
+
+/**
+ * The presets file selected with `--config`, or src/data/pdf.json.
+ */
+export function getPdfConfig(args: string[]): PdfConfig {
+  const configArg = getOption(args, 'config');
+  return loadPdfConfig(configArg ? path.resolve(configArg) : undefined);
+}
+
+/**
+ * The settings selected on the command line: `--preset` (or `default`)
+ * from `--config` (or src/data/pdf.json), then `--paper`, `--margin`,
+ * `--locale` and `--output` on top. Batch runs pass the preset directly.
+ */
+export function getPdfSettings(
+  args: string[],
+  preset = getOption(args, 'preset'),
+): PdfSettings & { preset?: string } {
+  const config = getPdfConfig(args);
+  if (preset !== undefined && !config[preset]) {
+    const available = Object.keys(config);
+    throw new Error(
+      `Unknown PDF preset "${preset}"${available.length > 0 ? ` (available: ${available.join(', ')})` : ''}`,
+    );
+  }
+
+  const flags = presetSchema.safeParse(Object.fromEntries(
+    (['paper', 'margin', 'locale', 'output'] as const)
+      .map(name => [name, getOption(args, name)])
+      .filter(([, value]) => value !== undefined),
+  ));
+  if (!flags.success) {
+    throw new CVDataError(
+      flags.error.issues.map(issue => ({ path: `--${issue.path[0]}`, message: issue.message })),
+      'PDF options',
+    );
+  }
+
+  return {
+    ...DEFAULT_PDF_SETTINGS,
+    ...config[preset ?? 'default'],
+    ...flags.data,
+    preset,
+  };
+}
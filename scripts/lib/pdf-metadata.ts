@@ -0,0 +1,181 @@
+/**
+ * Document metadata for the generated PDFs, and a check that reads a
+ * finished PDF back.
+ *
+ * Chrome writes the tagged structure and the outline (bookmarks built from
+ * the headings) when asked to; title, author, subject, keywords and the
+ * document language are set here with pdf-lib afterwards.
+ */
+
+import fs from 'fs';
+import type { Root } from 'mdast';
+import { PDFDict, PDFDocument, PDFHexString, PDFName, PDFString } from 'pdf-lib';
+import type { CVData } from '../../src/types/cv';
+import { DEFAULT_LOCALE, isSectionHeading } from '../../src/lib/cv';
+import { plainText } from './markdown';
+
+/** Keywords taken from the start of each skill category */
+const KEYWORDS_PER_CATEGORY = 3;
+const MAX_KEYWORDS = 15;
+
+export interface PdfMetadata {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string[];
+  language: string;
+  /** Section headings expected as bookmarks */
+  sections: string[];
+}
+
+function topSkills(categories: string[][]): string[] {
+  const skills = categories.flatMap(skills => skills.slice(0, KEYWORDS_PER_CATEGORY));
+  return [...new Set(skills)].slice(0, MAX_KEYWORDS);
+}
+
+/** The text of every `<h2>` in a rendered document */
+function sectionHeadings(html: string): string[] {
+  return [...html.matchAll(/<h2[^>]*>(.*?)<\/h2>/g)].map(match => match[1].replace(/<[^>]+>/g, '').trim());
+}
+
+/**
+ * Metadata for a PDF of the print template, in the locale it was rendered
+ * in. Skill categories come first in profile order, so their leading
+ * skills are the top skills.
+ */
+export function cvMetadata(cv: CVData, html: string, locale: string = DEFAULT_LOCALE): PdfMetadata {
+  return {
+    title: `${cv.personal.name} - CV`,
+    author: cv.personal.name,
+    subject: cv.personal.title,
+    keywords: topSkills(cv.skills.technical.map(category => category.skills)),
+    language: locale,
+    sections: sectionHeadings(html),
+  };
+}
+
+/**
+ * Metadata for a PDF of tailored markdown: the name is the `#` heading,
+ * the title the paragraph after it and the skills the `**Category:** a, b`
+ * lines under `## Skills` (or its translation).
+ */
+export function markdownMetadata(tree: Root, html: string, locale: string = DEFAULT_LOCALE): PdfMetadata {
+  const content = tree.children;
+  const nameIndex = content.findIndex(node => node.type === 'heading' && node.depth === 1);
+  const name = nameIndex === -1 ? '' : plainText(content[nameIndex]);
+  // The title is the first line of the paragraph after the name
+  const subject = content[nameIndex + 1]?.type === 'paragraph'
+    ? plainText(content[nameIndex + 1]).split('\n')[0].trim()
+    : '';
+
+  const categories: string[][] = [];
+  const skillsIndex = content.findIndex(
+    node => node.type === 'heading' && node.depth === 2 && isSectionHeading(plainText(node), 'skills'),
+  );
+  if (skillsIndex !== -1) {
+    for (const node of content.slice(skillsIndex + 1)) {
+      if (node.type === 'heading') break;
+      if (node.type !== 'paragraph') continue;
+      const [, skills] = plainText(node).split(/:\s*/, 2);
+      if (skills) categories.push(skills.split(',').map(skill => skill.trim()).filter(Boolean));
+    }
+  }
+
+  return {
+    title: name ? `${name} - CV` : 'CV',
+    author: name,
+    subject,
+    keywords: topSkills(categories),
+    language: locale,
+    sections: sectionHeadings(html),
+  };
+}
+
+/**
+ * Set the document information of a PDF.
+ */
+export async function writeMetadata(pdf: Uint8Array, metadata: PdfMetadata): Promise<Uint8Array> {
+  const document = await PDFDocument.load(pdf, { updateMetadata: false });
+  document.setTitle(metadata.title, { showInWindowTitleBar: true });
+  document.setAuthor(metadata.author);
+  document.setSubject(metadata.subject);
+  // A single comma-separated entry, since skills can contain spaces
+  document.setKeywords([metadata.keywords.join(', ')]);
+  document.setLanguage(metadata.language);
+  document.setCreator('camarneiro.com CV scripts');
+  return document.save();
+}
+
+function decodeText(value: unknown): string {
+  return value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : '';
+}
+
+/** The titles of every bookmark in the outline, depth first */
+function outlineTitles(document: PDFDocument): string[] {
+  const titles: string[] = [];
+  const visit = (item: PDFDict | undefined) => {
+    while (item) {
+      titles.push(decodeText(item.lookup(PDFName.of('Title'))));
+      visit(item.lookupMaybe(PDFName.of('First'), PDFDict));
+      item = item.lookupMaybe(PDFName.of('Next'), PDFDict);
+    }
+  };
+  const outlines = document.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+  visit(outlines?.lookupMaybe(PDFName.of('First'), PDFDict));
+  return titles;
+}
+
+/**
+ * Read a finished PDF back and list what's missing or wrong: metadata,
+ * bookmarks for every section, and the tagged structure.
+ */
+export async function checkPdf(filePath: string, metadata: PdfMetadata): Promise<string[]> {
+  const document = await PDFDocument.load(fs.readFileSync(filePath), { updateMetadata: false });
+  const problems: string[] = [];
+
+  const fields: [string, string | undefined, string][] = [
+    ['Title', document.getTitle(), metadata.title],
+    ['Author', document.getAuthor(), metadata.author],
+    ['Subject', document.getSubject(), metadata.subject],
+    ['Keywords', document.getKeywords(), metadata.keywords.join(', ')],
+  ];
+  for (const [field, actual, expected] of fields) {
+    if (!actual) problems.push(`${field} is missing`);
+    else if (actual !== expected) problems.push(`${field} is "${actual}", expected "${expected}"`);
+  }
+
+  if (decodeText(document.catalog.lookup(PDFName.of('Lang'))) !== metadata.language) {
+    problems.push(`Language is not set to "${metadata.language}"`);
+  }
+
+  const bookmarks = outlineTitles(document).map(title => title.toLowerCase());
+  if (bookmarks.length === 0) {
+    problems.push('No bookmarks');
+  } else {
+    for (const section of metadata.sections) {
+      if (!bookmarks.includes(section.toLowerCase())) problems.push(`No bookmark for ${section}`);
+    }
+  }
+
+  const markInfo = document.catalog.lookupMaybe(PDFName.of('MarkInfo'), PDFDict);
+  if (!document.catalog.has(PDFName.of('StructTreeRoot')) || String(markInfo?.get(PDFName.of('Marked'))) !== 'true') {
+    problems.push('Not a tagged PDF');
+  }
+
+  return problems;
+}
+
+/**
+ * Print the result of `checkPdf` in the generators' console style.
+ * Returns whether the PDF passed.
+ */
+export function printPdfCheck(problems: string[], metadata: PdfMetadata): boolean {
+  if (problems.length > 0) {
+    console.error('❌ PDF check failed:');
+    for (const problem of problems) console.error(`   - ${problem}`);
+    return false;
+  }
+  console.log(`   Metadata: "${metadata.title}", ${metadata.keywords.length} keywords`);
+  console.log(`   Bookmarks: ${metadata.sections.join(', ')}`);
+  return true;
+}
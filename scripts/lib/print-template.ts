@@ -0,0 +1,408 @@
+/**
+ * Print template for the CV PDF.
+ *
+ * Builds a standalone HTML document straight from CV data, so the PDF no
+ * longer depends on the markup of the /cv page. Everything that used to be
+ * a CSS selector hack on the rendered page is an explicit option here.
+ */
+
+import type { CVData, LocalizedString } from '../../src/types/cv';
+import type { CVLabels } from '../../src/lib/cv';
+import { cvLabels, formatDate, localizeText } from '../../src/lib/cv';
+import { COLORS } from './colors';
+import { embeddedFontFaces } from './fonts';
+
+/**
+ * Print group made of one or more skill categories. The name is printed in
+ * the CV's locale, falling back to English.
+ */
+export interface SkillGroup {
+  name: LocalizedString;
+  categories: string[];
+}
+
+export interface PrintOptions {
+  /** Most recent roles to include */
+  maxExperience?: number;
+  /** Include the Key Achievements section */
+  keyAchievements?: boolean;
+  /**
+   * Skill categories merged into fewer lines. Categories not named in any
+   * group are listed on their own; `null` keeps every category separate.
+   */
+  skillGroups?: SkillGroup[] | null;
+  /**
+   * Locale for dates and section headings, e.g. `en-GB`. The CV data is
+   * expected to be localized already (see `localizeCV`).
+   */
+  locale?: string;
+}
+
+export const DEFAULT_SKILL_GROUPS: SkillGroup[] = [
+  { name: { en: 'Frontend', pt: 'Frontend' }, categories: ['Frontend Engineering', 'State Management & Data', 'Architecture & Performance'] },
+  { name: { en: 'Testing', pt: 'Testes' }, categories: ['Testing & Quality'] },
+  { name: { en: 'DevOps & Cloud', pt: 'DevOps e Cloud' }, categories: ['DevOps & Tools', 'Cloud & Monitoring'] },
+  { name: { en: 'Leadership & Other', pt: 'Liderança e Outros' }, categories: ['Leadership & Collaboration', 'Emerging Tech'] },
+];
+
+export const DEFAULT_PRINT_OPTIONS: Required<PrintOptions> = {
+  maxExperience: 6,
+  keyAchievements: false,
+  skillGroups: DEFAULT_SKILL_GROUPS,
+  locale: 'en-US',
+};
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** "https://www.linkedin.com/in/name" -> "linkedin.com/in/name" */
+function displayUrl(url: string): string {
+  return url.replace(/^https?:\/\/(www\.)?/, '').replace(/\/$/, '');
+}
+
+function dateRange(start: string, end: string | null, locale: string): string {
+  return `${formatDate(start, locale)} - ${formatDate(end, locale)}`;
+}
+
+/**
+ * The technical skills as print lines, merged by the skill groups and
+ * named in the locale.
+ */
+export function groupSkills(
+  cv: CVData,
+  groups: SkillGroup[] | null,
+  locale: string = DEFAULT_PRINT_OPTIONS.locale,
+): { name: string; skills: string[] }[] {
+  const categories = cv.skills.technical;
+  if (!groups) return categories.map(category => ({ name: category.category, skills: category.skills }));
+
+  const lines: { name: string; skills: string[] }[] = [];
+
+  for (const category of categories) {
+    const group = groups.find(candidate => candidate.categories.includes(category.category));
+    if (!group) {
+      lines.push({ name: category.category, skills: category.skills });
+      continue;
+    }
+    // Each group is emitted where its first category appears
+    const name = localizeText(group.name, locale);
+    if (lines.some(line => line.name === name)) continue;
+    const skills = categories
+      .filter(candidate => group.categories.includes(candidate.category))
+      .flatMap(candidate => candidate.skills);
+    lines.push({ name, skills });
+  }
+
+  return lines;
+}
+
+function section(title: string, className: string, body: string): string {
+  return `<section class="${className}">
+  <h2>${title}</h2>
+${body}
+</section>`;
+}
+
+function renderHeader(cv: CVData): string {
+  const contact = [
+    cv.personal.location,
+    cv.personal.email,
+    cv.personal.phone,
+    cv.personal.website && displayUrl(cv.personal.website),
+    cv.personal.linkedin && displayUrl(cv.personal.linkedin),
+    cv.personal.github && displayUrl(cv.personal.github),
+  ].filter((item): item is string => Boolean(item));
+
+  return `<header>
+  <h1>${escapeHtml(cv.personal.name)}</h1>
+  <p class="title">${escapeHtml(cv.personal.title)}</p>
+  <p class="contact">${contact.map(escapeHtml).join('<span class="sep">·</span>')}</p>
+</header>`;
+}
+
+function renderExperience(cv: CVData, maxExperience: number, locale: string): string {
+  return cv.experience
+    .slice(0, maxExperience)
+    .map(exp => {
+      const achievements = exp.achievements.length > 0
+        ? `\n    <ul>${exp.achievements.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+        : '';
+      const skills = exp.skills.length > 0
+        ? `\n    <p class="skills">${escapeHtml(exp.skills.join(', '))}</p>`
+        : '';
+      return `  <article>
+    <div class="entry-header">
+      <div>
+        <h3>${escapeHtml(exp.title)}</h3>
+        <p class="org">${escapeHtml(exp.company)} · ${escapeHtml(exp.location)}</p>
+      </div>
+      <p class="dates">${dateRange(exp.startDate, exp.endDate, locale)}</p>
+    </div>
+    <p>${escapeHtml(exp.description)}</p>${achievements}${skills}
+  </article>`;
+    })
+    .join('\n');
+}
+
+function renderSkills(cv: CVData, groups: SkillGroup[] | null, locale: string, labels: CVLabels): string {
+  const lines = groupSkills(cv, groups, locale);
+  if (cv.skills.soft && cv.skills.soft.length > 0) {
+    lines.push({ name: labels.softSkills, skills: cv.skills.soft });
+  }
+  return lines
+    .map(line => `  <p><strong class="label">${escapeHtml(line.name)}:</strong> ${escapeHtml(line.skills.join(', '))}</p>`)
+    .join('\n');
+}
+
+function renderEducation(cv: CVData, locale: string): string {
+  return cv.education
+    .map(edu => `  <article>
+    <div class="entry-header">
+      <div>
+        <h3>${escapeHtml(edu.degree)}</h3>
+        <p class="org">${escapeHtml(edu.institution)} · ${escapeHtml(edu.location)}</p>
+      </div>
+      <p class="dates">${dateRange(edu.startDate, edu.endDate, locale)}</p>
+    </div>
+  </article>`)
+    .join('\n');
+}
+
+function renderProjects(cv: CVData, locale: string): string {
+  return (cv.projects ?? [])
+    .map(proj => {
+      const links = [proj.url, proj.github]
+        .filter((url): url is string => Boolean(url))
+        .map(url => `<a href="${escapeHtml(url)}">${escapeHtml(displayUrl(url))}</a>`)
+        .join(' · ');
+      const highlights = proj.highlights.length > 0
+        ? `\n    <ul>${proj.highlights.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+        : '';
+      const technologies = proj.technologies.length > 0
+        ? `\n    <p class="skills">${escapeHtml(proj.technologies.join(', '))}</p>`
+        : '';
+      return `  <article>
+    <div class="entry-header">
+      <div>
+        <h3>${escapeHtml(proj.name)}</h3>
+        ${links ? `<p class="org">${links}</p>` : ''}
+      </div>
+      ${proj.startDate ? `<p class="dates">${dateRange(proj.startDate, proj.endDate ?? null, locale)}</p>` : ''}
+    </div>
+    <p>${escapeHtml(proj.description)}</p>${highlights}${technologies}
+  </article>`;
+    })
+    .join('\n');
+}
+
+function renderCertifications(cv: CVData, locale: string): string {
+  return (cv.certifications ?? [])
+    .map(cert => {
+      const details = [cert.issuer, formatDate(cert.date, locale)];
+      if (cert.credentialId) details.push(`${cvLabels(locale).credentialId}: ${cert.credentialId}`);
+      return `  <p><strong>${escapeHtml(cert.name)}</strong> - ${escapeHtml(details.join(', '))}</p>`;
+    })
+    .join('\n');
+}
+
+function renderStyles(): string {
+  return `
+    ${embeddedFontFaces()}
+
+    * {
+      margin: 0;
+      padding: 0;
+      box-sizing: border-box;
+      print-color-adjust: exact;
+      -webkit-print-color-adjust: exact;
+    }
+
+    body {
+      font-family: 'Inter', system-ui, sans-serif;
+      background: white;
+      color: ${COLORS.graphite};
+      font-size: 8.5pt;
+      line-height: 1.35;
+    }
+
+    header {
+      padding-bottom: 6pt;
+      margin-bottom: 8pt;
+      border-bottom: 1px solid ${COLORS.border};
+    }
+
+    h1 {
+      color: ${COLORS.ink};
+      font-size: 20pt;
+      font-weight: 300;
+      line-height: 1.1;
+      margin-bottom: 2pt;
+    }
+
+    .title {
+      color: ${COLORS.copper};
+      font-size: 11pt;
+      margin-bottom: 4pt;
+    }
+
+    .contact {
+      font-size: 8pt;
+    }
+
+    .contact .sep {
+      margin: 0 5pt;
+      color: ${COLORS.border};
+    }
+
+    section {
+      margin-bottom: 8pt;
+    }
+
+    h2 {
+      color: ${COLORS.ink};
+      font-size: 11pt;
+      font-weight: 400;
+      margin-bottom: 5pt;
+      padding-bottom: 2pt;
+      border-bottom: 1px solid ${COLORS.border};
+      break-after: avoid;
+    }
+
+    h3 {
+      color: ${COLORS.ink};
+      font-size: 9.5pt;
+      font-weight: 500;
+      line-height: 1.2;
+    }
+
+    article {
+      margin-bottom: 6pt;
+      padding-bottom: 4pt;
+      border-bottom: 1px solid ${COLORS.border};
+      break-inside: avoid;
+    }
+
+    article:last-child {
+      border-bottom: none;
+    }
+
+    .entry-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: flex-start;
+      gap: 8pt;
+      margin-bottom: 2pt;
+    }
+
+    .org {
+      color: ${COLORS.copper};
+      font-size: 8pt;
+    }
+
+    .org a {
+      color: inherit;
+      text-decoration: none;
+    }
+
+    .dates {
+      font-size: 7.5pt;
+      white-space: nowrap;
+    }
+
+    p {
+      margin-bottom: 2pt;
+    }
+
+    ul {
+      margin: 1pt 0 2pt 0;
+      padding-left: 12pt;
+    }
+
+    li {
+      margin-bottom: 1pt;
+    }
+
+    .skills {
+      font-size: 7.5pt;
+      font-style: italic;
+    }
+
+    strong {
+      font-weight: 600;
+      color: ${COLORS.ink};
+    }
+
+    strong.label {
+      color: ${COLORS.copper};
+    }
+
+    .key-achievements .grid {
+      display: grid;
+      grid-template-columns: repeat(2, 1fr);
+      gap: 4pt;
+    }
+
+    .key-achievements .card {
+      background: ${COLORS.beige};
+      border: 1px solid ${COLORS.border};
+      border-radius: 3pt;
+      padding: 4pt 6pt;
+    }
+
+    .key-achievements h3 {
+      color: ${COLORS.copper};
+    }`;
+}
+
+/**
+ * Render the CV as a print-ready HTML document.
+ */
+export function renderPrintHTML(cv: CVData, options: PrintOptions = {}): string {
+  const { maxExperience, keyAchievements, skillGroups, locale } = { ...DEFAULT_PRINT_OPTIONS, ...options };
+  const labels = cvLabels(locale);
+  const sections: string[] = [];
+
+  sections.push(section(labels.professionalSummary, 'summary', `  <p>${escapeHtml(cv.summary)}</p>`));
+
+  if (keyAchievements && cv.keyAchievements && cv.keyAchievements.length > 0) {
+    const cards = cv.keyAchievements
+      .map(item => `    <div class="card"><h3>${escapeHtml(item.title)}</h3><p>${escapeHtml(item.description)}</p></div>`)
+      .join('\n');
+    sections.push(section(labels.keyAchievements, 'key-achievements', `  <div class="grid">\n${cards}\n  </div>`));
+  }
+
+  sections.push(section(labels.experience, 'experience', renderExperience(cv, maxExperience, locale)));
+  sections.push(section(labels.skills, 'skills', renderSkills(cv, skillGroups, locale, labels)));
+  sections.push(section(labels.education, 'education', renderEducation(cv, locale)));
+
+  if (cv.certifications && cv.certifications.length > 0) {
+    sections.push(section(labels.certifications, 'certifications', renderCertifications(cv, locale)));
+  }
+  if (cv.projects && cv.projects.length > 0) {
+    sections.push(section(labels.projects, 'projects', renderProjects(cv, locale)));
+  }
+  if (cv.languages && cv.languages.length > 0) {
+    const languages = cv.languages.map(lang => `${lang.name} (${labels.proficiency[lang.proficiency]})`).join(' · ');
+    sections.push(section(labels.languages, 'languages', `  <p>${escapeHtml(languages)}</p>`));
+  }
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(cv.personal.name)} - CV</title>
+  <style>${renderStyles()}
+  </style>
+</head>
+<body>
+${renderHeader(cv)}
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+/**
+ * Mock DEV.to API
+ *
+ * A local, in-memory stand-in for the parts of the DEV.to API the
+ * cross-posting scripts use, for trying them out without touching a real
+ * account. Every request is logged; articles are lost when it stops.
+ *
+ * Usage:
+ *   npm run devto:mock                 # http://localhost:3001/api
+ *   npm run devto:mock -- --port 4000
+ *
+ * Then, in another terminal:
+ *   DEVTO_API_URL=http://localhost:3001/api DEVTO_API_KEY=test npm run publish:devto hello-world
+ *
+ * Endpoints:
+ *   POST /api/articles           Create an article
+ *   PUT  /api/articles/:id       Update an article
+ *   GET  /api/articles/me/all    List articles, published or not
+ */
+
+import http from 'http';
+import type { DevToArticle, DevToRemoteArticle } from './lib/crosspost/devto';
+import { getOption } from './lib/cli';
+
+const articles = new Map<number, DevToRemoteArticle>();
+let nextId = 1000;
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function send(response: http.ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+async function readBody(request: http.IncomingMessage): Promise<{ article?: Partial<DevToArticle> }> {
+  let data = '';
+  for await (const chunk of request) data += chunk;
+  return data ? JSON.parse(data) : {};
+}
+
+function save(id: number, fields: Partial<DevToArticle>, previous?: DevToRemoteArticle): DevToRemoteArticle {
+  const title = fields.title ?? previous?.title ?? 'Untitled';
+  const article: DevToRemoteArticle = {
+    id,
+    title,
+    url: `https://dev.to/mock/${slugify(title)}-${id}`,
+    published: fields.published ?? previous?.published ?? false,
+    description: fields.description ?? previous?.description,
+    body_markdown: fields.body_markdown ?? previous?.body_markdown ?? '',
+    tag_list: fields.tags ?? previous?.tag_list ?? [],
+    canonical_url: fields.canonical_url ?? previous?.canonical_url,
+  };
+  articles.set(id, article);
+  return article;
+}
+
+async function handle(request: http.IncomingMessage, response: http.ServerResponse) {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  console.log(`${request.method} ${url.pathname}${url.search}`);
+
+  if (!request.headers['api-key']) {
+    send(response, 401, { error: 'unauthorized', status: 401 });
+    return;
+  }
+
+  const match = url.pathname.match(/^\/api\/articles(?:\/(\d+|me\/all))?$/);
+  if (request.method === 'POST' && match && !match[1]) {
+    const { article = {} } = await readBody(request);
+    if (!article.title) {
+      send(response, 422, { error: "Title can't be blank", status: 422 });
+      return;
+    }
+    send(response, 201, save(nextId++, article));
+  } else if (request.method === 'PUT' && match?.[1] && match[1] !== 'me/all') {
+    const id = Number(match[1]);
+    const previous = articles.get(id);
+    if (!previous) {
+      send(response, 404, { error: 'not found', status: 404 });
+      return;
+    }
+    const { article = {} } = await readBody(request);
+    send(response, 200, save(id, article, previous));
+  } else if (request.method === 'GET' && match?.[1] === 'me/all') {
+    const page = Number(url.searchParams.get('page') ?? 1);
+    const perPage = Number(url.searchParams.get('per_page') ?? 30);
+    send(response, 200, [...articles.values()].slice((page - 1) * perPage, page * perPage));
+  } else {
+    send(response, 404, { error: 'not found', status: 404 });
+  }
+}
+
+function main() {
+  const port = Number(getOption(process.argv.slice(2), 'port') ?? 3001);
+  const server = http.createServer((request, response) => {
+    handle(request, response).catch(error => send(response, 400, { error: (error as Error).message, status: 400 }));
+  });
+
+  server.listen(port, '127.0.0.1', () => {
+    console.log(`🧪 Mock DEV.to API at http://localhost:${port}/api`);
+    console.log('   Press Ctrl+C to stop');
+  });
+}
+
+main();
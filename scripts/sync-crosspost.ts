@@ -0,0 +1,178 @@
+#!/usr/bin/env node
+/**
+ * Cross-Post Sync
+ *
+ * Brings every blog post up to date on every cross-post platform in one
+ * run: posts that aren't on a platform yet are published there, and posts
+ * edited since they were last synced (`updatedAt` newer than
+ * `crosspost.<key>.syncedAt`) are updated. Drafts and posts whose
+ * `publishedAt` is still in the future are skipped. Ends with a summary
+ * table.
+ *
+ * Usage:
+ *   npm run crosspost:sync
+ *   npm run crosspost:sync -- --to devto,hashnode
+ *   npm run crosspost:sync -- --plan
+ *
+ * Options:
+ *   --to <names>  Comma-separated providers (default: every provider whose
+ *                 environment variables are set; see scripts/crosspost.ts)
+ *   --plan        Show what would be published or updated without calling
+ *                 any platform or writing any file
+ *
+ * Safe to run unattended: with no credentials set it does nothing, a
+ * failing platform doesn't stop the others, and each post's frontmatter
+ * is written as soon as its platforms are done, so a re-run picks up
+ * where this one stopped. Commit the frontmatter changes afterwards, or
+ * the next run publishes the same posts again.
+ */
+
+import type { CrosspostState } from '../src/lib/crosspost';
+import type { BlogPost, FrontmatterField } from './lib/blog';
+import { loadPosts, writeFrontmatter } from './lib/blog';
+import { getOption, hasFlag } from './lib/cli';
+import type { CrosspostProvider } from './lib/crosspost';
+import { PROVIDERS, missingEnv, resolveProviders, stateFields } from './lib/crosspost';
+
+type Action = 'publish' | 'update' | 'skip';
+
+interface SyncRow {
+  post: string;
+  platform: string;
+  result: string;
+  detail: string;
+}
+
+/**
+ * Why a post isn't cross-posted at all, if it isn't.
+ */
+function skipReason(post: BlogPost, now: Date): string | undefined {
+  if (post.frontmatter.draft) return 'draft';
+  const publishedAt = new Date(post.frontmatter.publishedAt);
+  if (publishedAt > now) return `scheduled for ${publishedAt.toISOString().slice(0, 10)}`;
+  return undefined;
+}
+
+/**
+ * What a platform needs: publishing when the post isn't there yet, an
+ * update when it was edited after the last sync.
+ */
+function plan(post: BlogPost, provider: CrosspostProvider, state: CrosspostState | undefined): { action: Action; detail: string } {
+  if (!state || (!state.published && state.id === undefined && !state.url)) {
+    return { action: 'publish', detail: '' };
+  }
+  if (!state.published) {
+    // Unpublished with `crosspost -- unpublish`; leave it that way
+    return { action: 'skip', detail: 'unpublished' };
+  }
+
+  const { updatedAt } = post.frontmatter;
+  const syncedAt = state.syncedAt ? new Date(state.syncedAt) : undefined;
+  if (!updatedAt || (syncedAt && new Date(updatedAt) <= syncedAt)) {
+    return { action: 'skip', detail: state.url ?? '' };
+  }
+  if (!provider.update) {
+    return { action: 'skip', detail: `edited, but ${provider.label} can't update posts` };
+  }
+  return { action: 'update', detail: '' };
+}
+
+function printTable(rows: SyncRow[]) {
+  const headers: SyncRow = { post: 'Post', platform: 'Platform', result: 'Result', detail: 'Details' };
+  const columns = (['post', 'platform', 'result'] as const).map(
+    column => Math.max(...[headers, ...rows].map(row => row[column].length)),
+  );
+  const format = (row: SyncRow) =>
+    `   ${row.post.padEnd(columns[0])}  ${row.platform.padEnd(columns[1])}  ${row.result.padEnd(columns[2])}  ${row.detail}`.trimEnd();
+
+  console.log(format(headers));
+  console.log(`   ${'-'.repeat(columns[0])}  ${'-'.repeat(columns[1])}  ${'-'.repeat(columns[2])}  -------`);
+  for (const row of rows) {
+    console.log(format(row));
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const planOnly = hasFlag(args, 'plan');
+  const to = getOption(args, 'to');
+
+  let providers: CrosspostProvider[];
+  let posts: BlogPost[];
+  try {
+    providers = to ? resolveProviders(to) : Object.values(PROVIDERS).filter(provider => missingEnv(provider).length === 0);
+    posts = loadPosts();
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  if (providers.length === 0) {
+    console.log('⚠️  No cross-post platform is configured, nothing to sync');
+    console.log('   Set the API keys listed in CROSS_POSTING.md, or pass --to');
+    return;
+  }
+
+  console.log(`🔄 Syncing ${posts.length} post(s) to ${providers.map(provider => provider.label).join(', ')}${planOnly ? ' (plan only)' : ''}...`);
+
+  const now = new Date();
+  const rows: SyncRow[] = [];
+  let failed = 0;
+
+  for (const post of posts) {
+    const reason = skipReason(post, now);
+    if (reason) {
+      rows.push({ post: post.slug, platform: '-', result: 'skipped', detail: reason });
+      continue;
+    }
+
+    const fields: FrontmatterField[] = [];
+    for (const provider of providers) {
+      const row: SyncRow = { post: post.slug, platform: provider.label, result: '', detail: '' };
+      rows.push(row);
+
+      const { action, detail } = plan(post, provider, post.frontmatter.crosspost?.[provider.key]);
+      if (action === 'skip') {
+        Object.assign(row, { result: 'up to date', detail });
+        continue;
+      }
+      if (planOnly) {
+        Object.assign(row, { result: `would ${action}` });
+        continue;
+      }
+
+      const missing = missingEnv(provider);
+      if (missing.length > 0) {
+        Object.assign(row, { result: 'failed', detail: `${missing.join(', ')} must be set` });
+        failed++;
+        continue;
+      }
+
+      try {
+        const state = post.frontmatter.crosspost?.[provider.key];
+        const result = action === 'update' && state && provider.update
+          ? await provider.update(post, state)
+          : await provider.publish(post);
+        fields.push(...stateFields(provider, result));
+        Object.assign(row, { result: action === 'update' ? 'updated' : 'published', detail: result.url });
+      } catch (error) {
+        Object.assign(row, { result: 'failed', detail: (error as Error).message.split('\n')[0] });
+        failed++;
+      }
+    }
+
+    if (fields.length > 0) writeFrontmatter(post, fields);
+  }
+
+  console.log('');
+  printTable(rows);
+  console.log('');
+
+  if (failed > 0) {
+    console.error(`❌ ${failed} cross-post(s) failed`);
+    process.exit(1);
+  }
+  console.log('✅ Sync complete');
+}
+
+main();
@@ -0,0 +1,148 @@
+#!/usr/bin/env node
+/**
+ * CV Tailoring
+ *
+ * Tailors the CV to a job description locally, without an LLM. Every
+ * achievement, project highlight and skill is scored by keyword and
+ * synonym overlap with the posting. The CV is then reordered and pruned
+ * to fit a page budget and written as markdown for cv:pdf:tailored, along
+ * with an explanation of what was kept or dropped and why.
+ *
+ * Workflow:
+ *   1. Tailor:        npm run cv:tailor -- job.txt
+ *   2. Review:        dist/cv-tailored.md (edit further if you like)
+ *   3. Generate PDF:  npm run cv:pdf:tailored dist/cv-tailored.md
+ *
+ * Usage:
+ *   npm run cv:tailor -- <job-description-file> [output.md]
+ *
+ * Options:
+ *   --pages <n>       Page budget (default: 2)
+ *   --json <file>     Also write the tailored CV data as JSON
+ *   --profile <name>  Profile from src/data/profiles.json, or comma-separated
+ *                     visibility tags (prefix with ! to exclude)
+ *   --include-hidden  Include all items regardless of visibility;
+ *                     --profile overrides still apply
+ *   --locale <lang>   Language, e.g. pt for a Portuguese job description;
+ *                     untranslated fields stay English
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { CVData } from '../src/types/cv';
+import type { TailorDecision, TailorResult } from '../src/lib/cv';
+import { loadCV, tailorCV } from '../src/lib/cv';
+import { applyProfileArgs, getLocale, getOption, getPositionals } from './lib/cli';
+import { exportToMarkdown } from './lib/markdown';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_OUTPUT_PATH = path.join(__dirname, '..', 'dist', 'cv-tailored.md');
+
+function truncate(text: string, length = 90): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
+
+function formatDecision(decision: TailorDecision, indent: string): string {
+  const mark = decision.kept ? '+' : '-';
+  return `${indent}${mark} [${decision.score}] ${truncate(decision.text)}\n${indent}    ${decision.reason}`;
+}
+
+function printExplanation(result: TailorResult, pages: number) {
+  const phrases = result.terms.filter(term => term.kind === 'phrase').map(term => term.term);
+  console.log('');
+  console.log(`🔎 Job terms: ${phrases.join(', ') || '(no known skills found)'}`);
+  console.log(`   Plus ${result.terms.length - phrases.length} other words`);
+
+  const sections: [string, TailorDecision['kind'], TailorDecision['kind']][] = [
+    ['Experience', 'experience', 'achievement'],
+    ['Projects', 'project', 'highlight'],
+  ];
+  for (const [title, parentKind, childKind] of sections) {
+    const parents = result.decisions.filter(decision => decision.kind === parentKind);
+    if (parents.length === 0) continue;
+    console.log('');
+    console.log(`📋 ${title}:`);
+    for (const parent of parents) {
+      console.log(formatDecision(parent, '   '));
+      for (const child of result.decisions) {
+        if (child.kind === childKind && child.id === parent.id && parent.kept) {
+          console.log(formatDecision(child, '      '));
+        }
+      }
+    }
+  }
+
+  console.log('');
+  console.log('📋 Skills:');
+  for (const decision of result.decisions.filter(decision => decision.kind === 'skill-category')) {
+    console.log(formatDecision({ ...decision, text: decision.label }, '   '));
+  }
+
+  const dropped = result.decisions.filter(decision => !decision.kept).length;
+  console.log('');
+  console.log(`   ${dropped} item${dropped === 1 ? '' : 's'} dropped, estimated length ${result.estimatedPages} page${result.estimatedPages === 1 ? '' : 's'}`);
+  if (result.estimatedPages > pages) {
+    console.log(`⚠️  Still over the ${pages}-page budget: the most recent roles are never dropped`);
+  }
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const [jdArg, outputArg] = getPositionals(args, ['pages', 'json', 'profile', 'locale']);
+
+  if (!jdArg) {
+    console.error('❌ Error: Missing job description file');
+    console.error('   Usage: npm run cv:tailor -- <job-description-file> [output.md]');
+    process.exit(1);
+  }
+
+  const pages = Number(getOption(args, 'pages') ?? 2);
+  if (!Number.isInteger(pages) || pages < 1) {
+    console.error('❌ Error: --pages must be a positive whole number');
+    process.exit(1);
+  }
+
+  const jdPath = path.resolve(jdArg);
+  const outputPath = outputArg ? path.resolve(outputArg) : DEFAULT_OUTPUT_PATH;
+  const jsonArg = getOption(args, 'json');
+
+  console.log('✂️  Tailoring CV...');
+  console.log(`   Job description: ${jdPath}`);
+
+  if (!fs.existsSync(jdPath)) {
+    console.error(`❌ Error: File not found: ${jdPath}`);
+    process.exit(1);
+  }
+
+  let cv: CVData;
+  let locale: string;
+  try {
+    locale = getLocale(args);
+    cv = loadCV(undefined, locale);
+    cv = applyProfileArgs(args, cv, locale);
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const result = tailorCV(cv, fs.readFileSync(jdPath, 'utf-8'), { pages });
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, exportToMarkdown(result.cv, locale));
+  if (jsonArg) {
+    fs.writeFileSync(path.resolve(jsonArg), JSON.stringify(result.cv, null, 2) + '\n');
+  }
+
+  printExplanation(result, pages);
+
+  console.log('');
+  console.log('✅ Tailored CV generated!');
+  console.log(`   Output: ${outputPath}`);
+  if (jsonArg) console.log(`   JSON: ${path.resolve(jsonArg)}`);
+  console.log(`   Next: npm run cv:pdf:tailored ${path.relative(process.cwd(), outputPath)}`);
+}
+
+main();
@@ -0,0 +1,269 @@
+#!/usr/bin/env node
+/**
+ * Golden File Tests
+ *
+ * Renders the exporters' output for the fixture CV in tests/golden/cv.json
+ * (LaTeX, markdown and the HTML cv:pdf:tailored renders from it), the
+ * markdown renderer's output for tests/golden/render-input.md, the keyword
+ * coverage of the fixture CV for tests/golden/keywords-input.txt, what
+ * cv:tailor keeps and drops for tests/golden/tailor-input.txt, the
+ * changes cv:diff finds from the fixture CV to tests/golden/diff-input.json,
+ * the fixture's JSON Resume export and the import of
+ * tests/golden/jsonresume-import-input.json into it, the issues validateCV
+ * reports for the tests/golden/invalid-*-input.json CVs,
+ * the cross-post frontmatter written into the
+ * tests/golden/frontmatter-*-input.md posts and the cross-post bodies of
+ * tests/golden/crosspost-input.mdx, and
+ * compares them with the golden files committed next to them, so any
+ * change to the output shows up as a diff to review.
+ *
+ * Workflow:
+ *   1. Compare:   npm test
+ *   2. Accept:    npm test -- --update (after checking the diffs)
+ *
+ * Usage:
+ *   npm test
+ *   npm test -- --update
+ *
+ * Options:
+ *   --update  Write the current output as the new golden files
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createTwoFilesPatch } from 'diff';
+import matter from 'gray-matter';
+import {
+  diffCV,
+  exportToLatex,
+  fromJSONResume,
+  keywordCoverage,
+  loadCV,
+  loadCVSource,
+  tailorCV,
+  toJSONResume,
+  validateCV,
+} from '../src/lib/cv';
+import type { TailorOptions } from '../src/lib/cv';
+import type { JSONResume } from '../src/types/jsonresume';
+import type { BlogFrontmatter, BlogPost, FrontmatterField } from './lib/blog';
+import { setFrontmatter } from './lib/blog';
+import { hasFlag } from './lib/cli';
+import { COLORS } from './lib/colors';
+import { crosspostBody } from './lib/crosspost/transform';
+import { exportToMarkdown, renderMarkdown } from './lib/markdown';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const ROOT_DIR = path.join(__dirname, '..');
+const GOLDEN_DIR = path.join(ROOT_DIR, 'tests', 'golden');
+const FIXTURE_PATH = path.join(GOLDEN_DIR, 'cv.json');
+/** Hand-written markdown covering what the CV markdown rarely contains */
+const RENDER_INPUT_PATH = path.join(GOLDEN_DIR, 'render-input.md');
+
+/** A job description for the keyword coverage of the fixture CV */
+const KEYWORDS_INPUT_PATH = path.join(GOLDEN_DIR, 'keywords-input.txt');
+/** A job description to tailor the fixture CV to */
+const TAILOR_INPUT_PATH = path.join(GOLDEN_DIR, 'tailor-input.txt');
+/** A budget tight enough for every kind of tailoring decision */
+const TAILOR_OPTIONS: TailorOptions = { pages: 1, linesPerPage: 40, maxAchievements: 3, minExperience: 1 };
+/**
+ * The fixture CV with its entries, categories and skills reordered, a skill
+ * moved between categories, a translation-only edit and an achievement
+ * replaced in place
+ */
+const DIFF_INPUT_PATH = path.join(GOLDEN_DIR, 'diff-input.json');
+/**
+ * A resume that edits one role, adds another and leaves out the fixture's
+ * other role, as an export without --include-hidden would
+ */
+const JSON_RESUME_INPUT_PATH = path.join(GOLDEN_DIR, 'jsonresume-import-input.json');
+/** A post using every link form and MDX component crosspostBody handles */
+const CROSSPOST_INPUT_PATH = path.join(GOLDEN_DIR, 'crosspost-input.mdx');
+
+/** What a DEV.to cross-post writes back into a post */
+const CROSSPOST_FIELDS: FrontmatterField[] = [
+  [['crosspost', 'devTo', 'id'], 1234],
+  [['crosspost', 'devTo', 'url'], 'https://dev.to/bcamarneiro/post-1234'],
+  [['crosspost', 'devTo', 'published'], true],
+  [['crosspost', 'devTo', 'syncedAt'], '2024-03-05T10:00:00.000Z'],
+];
+
+interface GoldenCase {
+  /** Golden file name in tests/golden/ */
+  file: string;
+  render(): string;
+}
+
+/**
+ * The cross-post fields set in a fixture post. Fails unless everything
+ * after the frontmatter comes back byte for byte.
+ */
+function crosspostFrontmatter(inputFile: string): string {
+  const source = fs.readFileSync(path.join(GOLDEN_DIR, inputFile), 'utf-8');
+  const updated = setFrontmatter(source, CROSSPOST_FIELDS);
+  if (matter(updated).content !== matter(source).content) {
+    throw new Error(`the body of ${inputFile} changed`);
+  }
+  return updated;
+}
+
+/**
+ * The JSON Resume export of the fixture CV. Fails unless importing it back
+ * gives the fixture unchanged, with nothing unmapped or unmatched.
+ */
+function jsonResumeExport(): string {
+  const cv = loadCV(FIXTURE_PATH);
+  const resume = toJSONResume(cv);
+  const imported = fromJSONResume(resume, cv);
+  if (JSON.stringify(imported.cv) !== JSON.stringify(cv)) {
+    throw new Error('importing the export changed the fixture CV');
+  }
+  if (imported.unmapped.length > 0 || imported.unmatched.length > 0) {
+    throw new Error(`importing the export reported ${[...imported.unmapped, ...imported.unmatched].join(', ')}`);
+  }
+  return JSON.stringify(resume, null, 2) + '\n';
+}
+
+/** The fixture CV's roles after importing the resume fixture into it */
+function jsonResumeImport(prune: boolean): string {
+  const resume = JSON.parse(fs.readFileSync(JSON_RESUME_INPUT_PATH, 'utf-8')) as JSONResume;
+  const { cv, unmapped, unmatched } = fromJSONResume(resume, loadCV(FIXTURE_PATH), { prune });
+  return JSON.stringify({ unmapped, unmatched, experience: cv.experience }, null, 2) + '\n';
+}
+
+/**
+ * The issues validateCV reports for an invalid fixture, by JSON path.
+ * Fails if the fixture is valid.
+ */
+function validationIssues(inputFile: string): string {
+  const result = validateCV(JSON.parse(fs.readFileSync(path.join(GOLDEN_DIR, inputFile), 'utf-8')));
+  if (result.success) throw new Error(`${inputFile} is valid`);
+  return JSON.stringify(result.issues, null, 2) + '\n';
+}
+
+/** The cross-post fixture, as if it were src/content/blog/crosspost-input.mdx */
+function crosspostPost(): BlogPost {
+  const source = fs.readFileSync(CROSSPOST_INPUT_PATH, 'utf-8');
+  const { data, content } = matter(source);
+  return { slug: 'crosspost-input', filePath: CROSSPOST_INPUT_PATH, frontmatter: data as BlogFrontmatter, content, source };
+}
+
+const CASES: GoldenCase[] = [
+  {
+    file: 'cv.tex',
+    render: () => exportToLatex(loadCV(FIXTURE_PATH), { colors: { accent: COLORS.copper, secondary: COLORS.graphite } }),
+  },
+  {
+    file: 'cv-pt.tex',
+    render: () => exportToLatex(loadCV(FIXTURE_PATH, 'pt'), { locale: 'pt' }),
+  },
+  {
+    file: 'cv.md',
+    render: () => exportToMarkdown(loadCV(FIXTURE_PATH)),
+  },
+  {
+    // What cv:pdf:tailored renders from the markdown export
+    file: 'cv.html',
+    render: () => renderMarkdown(exportToMarkdown(loadCV(FIXTURE_PATH))) + '\n',
+  },
+  {
+    file: 'render.html',
+    render: () => renderMarkdown(fs.readFileSync(RENDER_INPUT_PATH, 'utf-8')) + '\n',
+  },
+  {
+    file: 'keywords.json',
+    render: () => JSON.stringify(keywordCoverage(loadCV(FIXTURE_PATH), fs.readFileSync(KEYWORDS_INPUT_PATH, 'utf-8')), null, 2) + '\n',
+  },
+  {
+    file: 'tailor.json',
+    render: () => {
+      const { decisions, estimatedPages } = tailorCV(loadCV(FIXTURE_PATH), fs.readFileSync(TAILOR_INPUT_PATH, 'utf-8'), TAILOR_OPTIONS);
+      return JSON.stringify({ estimatedPages, decisions }, null, 2) + '\n';
+    },
+  },
+  {
+    file: 'diff.json',
+    render: () => JSON.stringify(diffCV(loadCVSource(FIXTURE_PATH), loadCVSource(DIFF_INPUT_PATH)), null, 2) + '\n',
+  },
+  {
+    file: 'jsonresume.json',
+    render: jsonResumeExport,
+  },
+  {
+    file: 'jsonresume-import.json',
+    render: () => jsonResumeImport(false),
+  },
+  {
+    file: 'jsonresume-import-prune.json',
+    render: () => jsonResumeImport(true),
+  },
+  ...['dates', 'ids', 'current'].map(name => ({
+    file: `invalid-${name}.json`,
+    render: () => validationIssues(`invalid-${name}-input.json`),
+  })),
+  ...['comments', 'crlf', 'empty-crosspost', 'flow'].map(name => ({
+    file: `frontmatter-${name}.md`,
+    render: () => crosspostFrontmatter(`frontmatter-${name}-input.md`),
+  })),
+  {
+    file: 'crosspost-devto.md',
+    render: () => crosspostBody(crosspostPost(), 'devto'),
+  },
+  {
+    file: 'crosspost-markdown.md',
+    render: () => crosspostBody(crosspostPost(), 'markdown'),
+  },
+];
+
+function main() {
+  const update = hasFlag(process.argv.slice(2), 'update');
+  let failed = 0;
+
+  console.log(`🧪 Checking ${CASES.length} golden file(s)${update ? ' (updating)' : ''}...`);
+
+  for (const { file, render } of CASES) {
+    const goldenPath = path.join(GOLDEN_DIR, file);
+    const relativePath = path.relative(ROOT_DIR, goldenPath);
+
+    let actual: string;
+    try {
+      actual = render();
+    } catch (error) {
+      console.error(`❌ ${file}: ${(error as Error).message}`);
+      failed++;
+      continue;
+    }
+
+    const expected = fs.existsSync(goldenPath) ? fs.readFileSync(goldenPath, 'utf-8') : undefined;
+    if (expected === actual) {
+      console.log(`✅ ${file}`);
+      continue;
+    }
+
+    if (update) {
+      fs.writeFileSync(goldenPath, actual);
+      console.log(`📝 ${file}: ${expected === undefined ? 'created' : 'updated'}`);
+      continue;
+    }
+
+    failed++;
+    if (expected === undefined) {
+      console.error(`❌ ${file}: no golden file at ${relativePath}; run with --update to create it`);
+      continue;
+    }
+    console.error(`❌ ${file}: output differs from ${relativePath}`);
+    console.error(createTwoFilesPatch(relativePath, 'actual', expected, actual, '', '', { context: 2 }));
+  }
+
+  if (failed > 0) {
+    console.error('');
+    console.error(`❌ ${failed} of ${CASES.length} golden file(s) failed`);
+    console.error('   If the change is intended, run: npm test -- --update');
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,136 @@
+#!/usr/bin/env node
+/**
+ * CV Validator
+ *
+ * Checks cv.json against the CV schema and the cross-field rules
+ * (date ranges, unique IDs, a single current role) and reports every
+ * problem with its JSON path. profiles.json is checked too, including
+ * that each `skillOrder` entry names an existing skill category; profile
+ * tags that no CV entry carries are reported but never fail validation.
+ * The Astro build runs the same checks.
+ *
+ * For every language cv.json has translations for, it also counts the
+ * translatable fields that would fall back to English; `--locale` lists
+ * them. Missing translations are reported but never fail validation.
+ *
+ * Usage:
+ *   npm run cv:validate                 # Validate src/data/cv.json
+ *   npm run cv:validate path/to/cv.json # Validate another file
+ *   npm run cv:validate -- --locale pt  # List fields not translated to pt
+ *
+ * Options:
+ *   --profiles <file>  Profiles file to check (default: src/data/profiles.json)
+ *   --locale <lang>    List the fields without a translation for this locale
+ *
+ * Exits with code 1 when any issue is found.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { CVSource } from '../src/types/cv';
+import {
+  CV_JSON_PATH,
+  DEFAULT_LOCALE,
+  PROFILES_JSON_PATH,
+  toJsonPath,
+  translatableFields,
+  translationLocales,
+  untranslatedFields,
+  unusedProfileTags,
+  validateCV,
+  validateProfiles,
+} from '../src/lib/cv';
+import type { CVIssue } from '../src/lib/cv';
+import { getLocale, getOption, getPositionals } from './lib/cli';
+
+function readJson(filePath: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    console.error(`❌ Error: ${filePath} is not valid JSON`);
+    console.error(`   ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+function report(displayPath: string, issues: CVIssue[]): boolean {
+  if (issues.length === 0) {
+    console.log(`✅ ${displayPath} is valid`);
+    return true;
+  }
+
+  console.error(`❌ ${displayPath} has ${issues.length} issue(s):`);
+  console.error('');
+  for (const issue of issues) {
+    console.error(`   ${issue.path}`);
+    console.error(`     ${issue.message}`);
+  }
+  return false;
+}
+
+/**
+ * How much of the CV is translated: a line per language, or with a locale
+ * every field still in English.
+ */
+function reportTranslations(source: CVSource, locale?: string) {
+  const total = translatableFields(source).length;
+
+  const locales = locale ? [locale] : translationLocales(source).filter(code => code !== DEFAULT_LOCALE);
+  for (const code of locales) {
+    const missing = untranslatedFields(source, code);
+    if (missing.length === 0) {
+      console.log(`✅ All ${total} translatable fields have a "${code}" translation`);
+      continue;
+    }
+    console.log(`⚠️  ${missing.length} of ${total} translatable fields fall back to English for "${code}"`);
+    if (locale) {
+      for (const fieldPath of missing) console.log(`   ${toJsonPath(fieldPath)}`);
+    } else {
+      console.log(`   List them with: npm run cv:validate -- --locale ${code}`);
+    }
+  }
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const cvArg = getPositionals(args, ['profiles', 'locale'])[0];
+  const profilesArg = getOption(args, 'profiles');
+
+  const filePath = cvArg ? path.resolve(cvArg) : CV_JSON_PATH;
+  const profilesPath = profilesArg ? path.resolve(profilesArg) : PROFILES_JSON_PATH;
+
+  if (!fs.existsSync(filePath)) {
+    console.error(`❌ Error: CV JSON not found at ${filePath}`);
+    process.exit(1);
+  }
+
+  let locale: string | undefined;
+  try {
+    locale = getOption(args, 'locale') === undefined ? undefined : getLocale(args);
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const result = validateCV(readJson(filePath));
+  let valid = report(cvArg ?? path.relative(process.cwd(), filePath), result.success ? [] : result.issues);
+  if (result.success) reportTranslations(result.source, locale);
+
+  if (fs.existsSync(profilesPath)) {
+    const profiles = validateProfiles(readJson(profilesPath), result.success ? result.data : undefined);
+    const displayPath = profilesArg ?? path.relative(process.cwd(), profilesPath);
+    valid = report(displayPath, profiles.success ? [] : profiles.issues) && valid;
+    if (profiles.success && result.success) {
+      for (const issue of unusedProfileTags(profiles.data, result.data)) {
+        console.log(`⚠️  ${displayPath} ${issue.path}: ${issue.message}`);
+      }
+    }
+  } else if (profilesArg) {
+    console.error(`❌ Error: Profiles JSON not found at ${profilesPath}`);
+    valid = false;
+  }
+
+  if (!valid) process.exit(1);
+}
+
+main();
@@ -0,0 +1,312 @@
+#!/usr/bin/env node
+/**
+ * CV Visual Regression
+ *
+ * Renders every page of the built CV PDF and the built /cv page to PNG,
+ * then compares them pixel by pixel with the baselines committed in
+ * tests/visual/. Runs entirely against dist/: the PDF is rasterized with
+ * pdf.js inside the same Chrome, and /cv is served from dist/ by a
+ * throwaway local server.
+ *
+ * Everything is rendered in the Chrome build pinned in lib/browser.ts
+ * (`PINNED_CHROME`), installed on first use, whatever `CHROME_PATH` says.
+ * Generate the PDF with it too, so the baselines match on every machine.
+ *
+ * Workflow:
+ *   1. Build:     npm run chrome:install && npm run build && npm run generate:pdf
+ *   2. Compare:   npm run cv:visual
+ *   3. Accept:    npm run cv:visual -- --update (after checking the diffs)
+ *
+ * With no baselines in tests/visual/ the check stops with a setup error
+ * rather than failing every image.
+ *
+ * Usage:
+ *   npm run cv:visual
+ *   npm run cv:visual -- --update
+ *   npm run cv:visual -- --threshold 0.5
+ *
+ * Options:
+ *   --update           Write the current renders as the new baselines
+ *   --threshold <pct>  Changed pixels allowed per image, in percent
+ *                      (default: 0.1)
+ *   --pdf <file>       PDF to check (default: dist/cv.pdf)
+ *
+ * Output:
+ *   dist/visual/actual/<name>.png  Current renders
+ *   dist/visual/diff/<name>.png    Changed pixels in red, for failed images
+ */
+
+import fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type * as PdfJs from 'pdfjs-dist';
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+import type { Browser } from 'puppeteer-core';
+import { withBrowser } from './lib/browser';
+import { getOption, hasFlag } from './lib/cli';
+import { waitForFonts } from './lib/fonts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const ROOT_DIR = path.join(__dirname, '..');
+const DIST_DIR = path.join(ROOT_DIR, 'dist');
+const BASELINE_DIR = path.join(ROOT_DIR, 'tests', 'visual');
+const OUTPUT_DIR = path.join(DIST_DIR, 'visual');
+// The legacy build: the current one relies on JavaScript newer than the
+// pinned Chrome supports
+const PDFJS_DIR = path.join(ROOT_DIR, 'node_modules', 'pdfjs-dist', 'legacy', 'build');
+
+/** PDF pages are rasterized at 1.5x (108 dpi) */
+const PDF_SCALE = 1.5;
+/** Per-pixel color tolerance for pixelmatch, 0 to 1 */
+const COLOR_THRESHOLD = 0.1;
+
+const VIEWPORTS = [
+  { name: 'desktop', width: 1280, height: 800 },
+  { name: 'mobile', width: 390, height: 844 },
+];
+
+/**
+ * Freeze anything that moves so screenshots are repeatable, and blank out
+ * text that depends on the build date (role durations, the copyright year)
+ * while keeping its space
+ */
+const STILL_CSS = `
+  *, *::before, *::after {
+    animation: none !important;
+    transition: none !important;
+    caret-color: transparent !important;
+  }
+  [data-visual-ignore] {
+    visibility: hidden !important;
+  }
+`;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.woff2': 'font/woff2',
+  '.woff': 'font/woff',
+  '.xml': 'application/xml',
+};
+
+interface Render {
+  name: string;
+  png: Buffer;
+}
+
+/**
+ * Serve dist/ on a free local port, the way GitHub Pages would.
+ */
+async function serveDist(): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = http.createServer((request, response) => {
+    let filePath = path.join(DIST_DIR, decodeURIComponent(new URL(request.url ?? '/', 'http://localhost').pathname));
+    if (!filePath.startsWith(DIST_DIR)) filePath = DIST_DIR;
+    if (fs.existsSync(filePath) && fs.statSync(filePath).isDirectory()) filePath = path.join(filePath, 'index.html');
+
+    if (!fs.existsSync(filePath)) {
+      response.writeHead(404).end();
+      return;
+    }
+    response.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream' });
+    fs.createReadStream(filePath).pipe(response);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Rasterize every page of a PDF with pdf.js, inside the browser.
+ */
+async function renderPdfPages(browser: Browser, pdfPath: string): Promise<Render[]> {
+  const page = await browser.newPage();
+  try {
+    await page.setContent('<!DOCTYPE html><html><body></body></html>');
+    await page.addScriptTag({ path: path.join(PDFJS_DIR, 'pdf.min.mjs'), type: 'module' });
+    await page.waitForFunction('globalThis.pdfjsLib !== undefined');
+
+    const pages = await page.evaluate(
+      async (data: string, worker: string, scale: number) => {
+        const pdfjs = (globalThis as unknown as { pdfjsLib: typeof PdfJs }).pdfjsLib;
+        pdfjs.GlobalWorkerOptions.workerSrc = URL.createObjectURL(new Blob([worker], { type: 'text/javascript' }));
+
+        const pdf = await pdfjs.getDocument({ data: Uint8Array.from(atob(data), char => char.charCodeAt(0)) }).promise;
+        const images: string[] = [];
+        for (let number = 1; number <= pdf.numPages; number++) {
+          const pdfPage = await pdf.getPage(number);
+          const viewport = pdfPage.getViewport({ scale });
+          const canvas = document.createElement('canvas');
+          canvas.width = Math.ceil(viewport.width);
+          canvas.height = Math.ceil(viewport.height);
+          await pdfPage.render({ canvas, viewport }).promise;
+          images.push(canvas.toDataURL('image/png').split(',')[1]);
+        }
+        return images;
+      },
+      fs.readFileSync(pdfPath).toString('base64'),
+      fs.readFileSync(path.join(PDFJS_DIR, 'pdf.worker.min.mjs'), 'utf-8'),
+      PDF_SCALE,
+    );
+
+    const name = path.basename(pdfPath, '.pdf');
+    return pages.map((png, index) => ({ name: `${name}-pdf-page-${index + 1}`, png: Buffer.from(png, 'base64') }));
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Full-page screenshots of /cv at each viewport.
+ */
+async function renderCVPage(browser: Browser, baseUrl: string): Promise<Render[]> {
+  const renders: Render[] = [];
+  for (const viewport of VIEWPORTS) {
+    const page = await browser.newPage();
+    try {
+      await page.setViewport({ width: viewport.width, height: viewport.height, deviceScaleFactor: 1 });
+      const response = await page.goto(`${baseUrl}/cv/`, { waitUntil: 'networkidle0', timeout: 30000 });
+      if (!response?.ok()) throw new Error(`/cv/ returned ${response?.status() ?? 'no response'}`);
+      await page.addStyleTag({ content: STILL_CSS });
+      await waitForFonts(page);
+      renders.push({ name: `cv-page-${viewport.name}`, png: Buffer.from(await page.screenshot({ fullPage: true })) });
+    } finally {
+      await page.close();
+    }
+  }
+  return renders;
+}
+
+function baselineFiles(): string[] {
+  if (!fs.existsSync(BASELINE_DIR)) return [];
+  return fs.readdirSync(BASELINE_DIR).filter(file => file.endsWith('.png'));
+}
+
+/**
+ * Compare a render with its baseline. Returns a problem description, or
+ * undefined when it matches within the threshold.
+ */
+function compare(render: Render, threshold: number): string | undefined {
+  const baselinePath = path.join(BASELINE_DIR, `${render.name}.png`);
+  if (!fs.existsSync(baselinePath)) return 'no baseline (run with --update to create it)';
+
+  const baseline = PNG.sync.read(fs.readFileSync(baselinePath));
+  const actual = PNG.sync.read(render.png);
+  if (baseline.width !== actual.width || baseline.height !== actual.height) {
+    return `size changed from ${baseline.width}x${baseline.height} to ${actual.width}x${actual.height}`;
+  }
+
+  const diff = new PNG({ width: actual.width, height: actual.height });
+  const changed = pixelmatch(baseline.data, actual.data, diff.data, actual.width, actual.height, {
+    threshold: COLOR_THRESHOLD,
+  });
+  const percent = (changed / (actual.width * actual.height)) * 100;
+  if (percent <= threshold) return undefined;
+
+  fs.mkdirSync(path.join(OUTPUT_DIR, 'diff'), { recursive: true });
+  fs.writeFileSync(path.join(OUTPUT_DIR, 'diff', `${render.name}.png`), PNG.sync.write(diff));
+  return `${changed} pixels changed (${percent.toFixed(3)}%, allowed ${threshold}%)`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const update = hasFlag(args, 'update');
+  const threshold = Number(getOption(args, 'threshold') ?? 0.1);
+  const pdfPath = path.resolve(getOption(args, 'pdf') ?? path.join(DIST_DIR, 'cv.pdf'));
+
+  if (!Number.isFinite(threshold) || threshold < 0) {
+    console.error('❌ Error: --threshold must be a percentage, e.g. 0.1');
+    process.exit(1);
+  }
+
+  if (!update && baselineFiles().length === 0) {
+    console.error(`❌ Error: no baselines in ${path.relative(ROOT_DIR, BASELINE_DIR)}/ yet`);
+    console.error('   Create them once with: npm run cv:visual -- --update');
+    console.error(`   then check the renders and commit ${path.relative(ROOT_DIR, BASELINE_DIR)}/*.png`);
+    process.exit(1);
+  }
+
+  console.log('🖼️  Checking CV rendering...');
+
+  for (const required of [pdfPath, path.join(DIST_DIR, 'cv', 'index.html')]) {
+    if (!fs.existsSync(required)) {
+      console.error(`❌ Error: ${path.relative(ROOT_DIR, required)} not found`);
+      console.error('   Build first: npm run build && npm run generate:pdf');
+      process.exit(1);
+    }
+  }
+
+  let renders: Render[];
+  const server = await serveDist();
+  try {
+    renders = await withBrowser(async browser => [
+      ...(await renderPdfPages(browser, pdfPath)),
+      ...(await renderCVPage(browser, server.url)),
+    ], { pinned: true });
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  } finally {
+    await server.close();
+  }
+
+  fs.rmSync(OUTPUT_DIR, { recursive: true, force: true });
+  fs.mkdirSync(path.join(OUTPUT_DIR, 'actual'), { recursive: true });
+  for (const render of renders) {
+    fs.writeFileSync(path.join(OUTPUT_DIR, 'actual', `${render.name}.png`), render.png);
+  }
+
+  if (update) {
+    fs.mkdirSync(BASELINE_DIR, { recursive: true });
+    for (const file of baselineFiles()) {
+      fs.rmSync(path.join(BASELINE_DIR, file));
+    }
+    for (const render of renders) {
+      fs.writeFileSync(path.join(BASELINE_DIR, `${render.name}.png`), render.png);
+    }
+    console.log(`✅ Updated ${renders.length} baselines in ${path.relative(ROOT_DIR, BASELINE_DIR)}/`);
+    return;
+  }
+
+  let failed = 0;
+  for (const render of renders) {
+    const problem = compare(render, threshold);
+    if (problem) {
+      failed++;
+      console.log(`❌ ${render.name}: ${problem}`);
+    } else {
+      console.log(`✅ ${render.name}`);
+    }
+  }
+
+  // A baseline nothing matches anymore, e.g. the PDF lost a page
+  const names = new Set(renders.map(render => render.name));
+  const stale = baselineFiles().filter(file => !names.has(path.basename(file, '.png')));
+  for (const file of stale) {
+    failed++;
+    console.log(`❌ ${path.basename(file, '.png')}: baseline exists but nothing was rendered for it`);
+  }
+
+  console.log('');
+  if (failed > 0) {
+    console.error(`❌ ${failed} of ${renders.length + stale.length} images differ from the baselines`);
+    console.error(`   Renders: ${path.relative(ROOT_DIR, path.join(OUTPUT_DIR, 'actual'))}/`);
+    console.error(`   Diffs:   ${path.relative(ROOT_DIR, path.join(OUTPUT_DIR, 'diff'))}/`);
+    process.exit(1);
+  }
+  console.log(`✅ All ${renders.length} images match the baselines`);
+}
+
+main();
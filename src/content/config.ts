@@ -1,4 +1,5 @@
 import { defineCollection, z } from 'astro:content';
+import { crosspostSchema } from '../lib/crosspost';
 
 const blog = defineCollection({
   type: 'content',
@@ -11,17 +12,7 @@ const blog = defineCollection({
     draft: z.boolean().optional().default(false),
     // Cross-posting metadata
     canonicalUrl: z.string().url().optional(),
-    crosspost: z.object({
-      devTo: z.object({
-        published: z.boolean().optional().default(false),
-        id: z.number().optional(),
-        url: z.string().url().optional(),
-      }).optional(),
-      medium: z.object({
-        published: z.boolean().optional().default(false),
-        url: z.string().url().optional(),
-      }).optional(),
-    }).optional(),
+    crosspost: crosspostSchema.optional(),
   }),
 });
 
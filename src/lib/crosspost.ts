@@ -0,0 +1,28 @@
+import { z } from 'astro/zod';
+
+/**
+ * Where blog posts can be cross-posted, as keys of a post's `crosspost`
+ * frontmatter. Each has a provider in scripts/lib/crosspost/.
+ */
+export const CROSSPOST_PROVIDERS = ['devTo', 'hashnode', 'medium', 'mastodon', 'bluesky'] as const;
+
+export type CrosspostProviderKey = (typeof CROSSPOST_PROVIDERS)[number];
+
+/** A post's state on one platform, written back by the cross-post scripts */
+export const crosspostStateSchema = z.object({
+  published: z.boolean().optional().default(false),
+  // Numeric on DEV.to, a string everywhere else
+  id: z.union([z.number(), z.string()]).optional(),
+  url: z.string().url().optional(),
+  // When the post was last published or updated there, for crosspost:sync
+  syncedAt: z.coerce.date().optional(),
+});
+
+export type CrosspostState = z.input<typeof crosspostStateSchema>;
+
+export const crosspostSchema = z.object(
+  Object.fromEntries(CROSSPOST_PROVIDERS.map(key => [key, crosspostStateSchema.optional()])) as Record<
+    CrosspostProviderKey,
+    z.ZodOptional<typeof crosspostStateSchema>
+  >,
+).strict();
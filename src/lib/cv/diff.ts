@@ -0,0 +1,316 @@
+import type { CVSource, LocalizedString } from '../../types/cv';
+import { DEFAULT_LOCALE } from './i18n';
+
+/**
+ * Semantic diff between two versions of cv.json.
+ *
+ * Entries are matched by `id` (experience, education, projects,
+ * certifications), by name (languages, skill categories) or by English
+ * title (key achievements), so a reordered or reformatted file doesn't
+ * show up as changes. Lists of text are compared item by item, and a
+ * field whose English is unchanged reports only its translations.
+ */
+
+export type CVSection =
+  | 'personal'
+  | 'summary'
+  | 'keyAchievements'
+  | 'experience'
+  | 'education'
+  | 'projects'
+  | 'certifications'
+  | 'skills'
+  | 'languages';
+
+export interface CVChange {
+  section: CVSection;
+  /** Entry ID, or its name for entries without one, e.g. "exp-1" or "Lit" */
+  entity?: string;
+  kind: 'added' | 'removed' | 'changed' | 'moved';
+  /** Field within the entry, e.g. "endDate" or "achievements" */
+  field?: string;
+  before?: unknown;
+  after?: unknown;
+  /** Human-readable description, e.g. "exp-1: achievement added: ..." */
+  message: string;
+}
+
+/** What one item of a list field is called in messages */
+const ITEM_NAMES: Record<string, string> = {
+  achievements: 'achievement',
+  highlights: 'highlight',
+  skills: 'skill',
+  soft: 'soft skill',
+  technologies: 'technology',
+  visibility: 'visibility tag',
+};
+
+/** List fields compared as sets: order and position carry no meaning */
+const TAG_FIELDS = ['skills', 'technologies', 'visibility'];
+
+type Entry = object;
+
+function truncate(text: string, length = 70): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
+
+function english(value: LocalizedString): string {
+  return typeof value === 'string' ? value : value[DEFAULT_LOCALE];
+}
+
+function translations(value: LocalizedString): Record<string, string> {
+  if (typeof value === 'string') return {};
+  const { [DEFAULT_LOCALE]: _, ...rest } = value;
+  return rest;
+}
+
+function isLocalized(value: unknown): value is LocalizedString {
+  return typeof value === 'string' || (typeof value === 'object' && value !== null && !Array.isArray(value) && DEFAULT_LOCALE in value);
+}
+
+/** A value as it reads in a message: quoted text, null as "null" */
+function show(value: unknown): string {
+  if (isLocalized(value)) return JSON.stringify(truncate(english(value)));
+  return JSON.stringify(value) ?? 'nothing';
+}
+
+function prefix(entity: string | undefined): string {
+  return entity ? `${entity}: ` : '';
+}
+
+/**
+ * Translation changes of a field whose English text is the same in both
+ * versions, one per locale.
+ */
+function diffTranslations(
+  base: Omit<CVChange, 'kind' | 'message'>,
+  label: string,
+  before: LocalizedString,
+  after: LocalizedString,
+): CVChange[] {
+  const was = translations(before);
+  const now = translations(after);
+  const changes: CVChange[] = [];
+  for (const locale of new Set([...Object.keys(was), ...Object.keys(now)])) {
+    if (was[locale] === now[locale]) continue;
+    const kind = was[locale] === undefined ? 'added' : now[locale] === undefined ? 'removed' : 'changed';
+    changes.push({
+      ...base,
+      kind,
+      before: was[locale],
+      after: now[locale],
+      message: `${prefix(base.entity)}${label}: ${locale} translation ${kind}`,
+    });
+  }
+  return changes;
+}
+
+/**
+ * A single-valued field: added, removed or changed, or only its
+ * translations changed.
+ */
+function diffValue(
+  section: CVSection,
+  entity: string | undefined,
+  field: string,
+  before: unknown,
+  after: unknown,
+): CVChange[] {
+  const base = { section, entity, field };
+  if (before === undefined) {
+    return [{ ...base, kind: 'added', after, message: `${prefix(entity)}${field} added: ${show(after)}` }];
+  }
+  if (after === undefined) {
+    return [{ ...base, kind: 'removed', before, message: `${prefix(entity)}${field} removed (was ${show(before)})` }];
+  }
+  if (isLocalized(before) && isLocalized(after)) {
+    if (english(before) === english(after)) return diffTranslations(base, field, before, after);
+  } else if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return [{
+    ...base,
+    kind: 'changed',
+    before,
+    after,
+    message: `${prefix(entity)}${field} changed from ${show(before)} to ${show(after)}`,
+  }];
+}
+
+/**
+ * A list of tags, compared as a set.
+ */
+function diffTags(section: CVSection, entity: string | undefined, field: string, before: string[], after: string[]): CVChange[] {
+  const item = ITEM_NAMES[field] ?? field;
+  const base = { section, entity, field };
+  return [
+    ...before.filter(tag => !after.includes(tag)).map((tag): CVChange => ({
+      ...base, kind: 'removed', before: tag, message: `${prefix(entity)}${item} '${tag}' removed`,
+    })),
+    ...after.filter(tag => !before.includes(tag)).map((tag): CVChange => ({
+      ...base, kind: 'added', after: tag, message: `${prefix(entity)}${item} '${tag}' added`,
+    })),
+  ];
+}
+
+/**
+ * A list of text (achievements, highlights), matched by English text. An
+ * item replaced at the same position counts as changed rather than
+ * removed and added.
+ */
+function diffTextList(
+  section: CVSection,
+  entity: string | undefined,
+  field: string,
+  before: LocalizedString[],
+  after: LocalizedString[],
+): CVChange[] {
+  const item = ITEM_NAMES[field] ?? field;
+  const base = { section, entity, field };
+  const beforeText = before.map(english);
+  const afterText = after.map(english);
+  const removed = new Set(before.map((_, i) => i).filter(i => !afterText.includes(beforeText[i])));
+  const added = new Set(after.map((_, i) => i).filter(i => !beforeText.includes(afterText[i])));
+  const changes: CVChange[] = [];
+
+  for (const i of removed) {
+    if (added.delete(i)) {
+      changes.push({
+        ...base,
+        kind: 'changed',
+        before: before[i],
+        after: after[i],
+        message: `${prefix(entity)}${item} ${i + 1} changed from ${show(before[i])} to ${show(after[i])}`,
+      });
+    } else {
+      changes.push({ ...base, kind: 'removed', before: before[i], message: `${prefix(entity)}${item} removed: ${show(before[i])}` });
+    }
+  }
+  for (const i of added) {
+    changes.push({ ...base, kind: 'added', after: after[i], message: `${prefix(entity)}${item} added: ${show(after[i])}` });
+  }
+  after.forEach((value, i) => {
+    const previous = before[beforeText.indexOf(afterText[i])];
+    if (previous !== undefined) changes.push(...diffTranslations(base, `${item} ${i + 1}`, previous, value));
+  });
+  return changes;
+}
+
+/**
+ * Every field of two versions of the same entry.
+ */
+function diffFields(section: CVSection, entity: string | undefined, before: Entry, after: Entry): CVChange[] {
+  const was = before as Record<string, unknown>;
+  const now = after as Record<string, unknown>;
+  const changes: CVChange[] = [];
+  for (const field of new Set([...Object.keys(was), ...Object.keys(now)])) {
+    if (field === 'id') continue;
+    const [from, to] = [was[field], now[field]];
+    if (Array.isArray(from) || Array.isArray(to)) {
+      const [fromList, toList] = [from ?? [], to ?? []] as [never[], never[]];
+      changes.push(...(TAG_FIELDS.includes(field)
+        ? diffTags(section, entity, field, fromList, toList)
+        : diffTextList(section, entity, field, fromList, toList)));
+    } else {
+      changes.push(...diffValue(section, entity, field, from, to));
+    }
+  }
+  return changes;
+}
+
+/**
+ * Entries matched by a key: added, removed, or their fields compared.
+ */
+function diffEntries<T extends Entry>(
+  section: CVSection,
+  before: T[],
+  after: T[],
+  key: (entry: T) => string,
+  describe: (entry: T) => string,
+): CVChange[] {
+  const was = new Map(before.map(entry => [key(entry), entry]));
+  const now = new Map(after.map(entry => [key(entry), entry]));
+  const changes: CVChange[] = [];
+
+  for (const [entity, entry] of was) {
+    if (!now.has(entity)) {
+      changes.push({ section, entity, kind: 'removed', before: entry, message: `${entity}: removed (${describe(entry)})` });
+    }
+  }
+  for (const [entity, entry] of now) {
+    const previous = was.get(entity);
+    if (previous === undefined) {
+      changes.push({ section, entity, kind: 'added', after: entry, message: `${entity}: added (${describe(entry)})` });
+    } else {
+      changes.push(...diffFields(section, entity, previous, entry));
+    }
+  }
+  return changes;
+}
+
+/**
+ * Technical skills: categories added or removed, and each skill added,
+ * removed or moved between categories. Order within a category is ignored.
+ */
+function diffSkills(before: CVSource['skills'], after: CVSource['skills']): CVChange[] {
+  const categoryOf = (skills: CVSource['skills']) => new Map(
+    skills.technical.flatMap(category => category.skills.map(skill => [skill, category.category] as const)),
+  );
+  const was = categoryOf(before);
+  const now = categoryOf(after);
+  const wasCategories = before.technical.map(category => category.category);
+  const nowCategories = after.technical.map(category => category.category);
+  const changes: CVChange[] = [];
+
+  for (const category of wasCategories.filter(name => !nowCategories.includes(name))) {
+    changes.push({ section: 'skills', entity: category, kind: 'removed', message: `category '${category}' removed` });
+  }
+  for (const category of nowCategories.filter(name => !wasCategories.includes(name))) {
+    changes.push({ section: 'skills', entity: category, kind: 'added', message: `category '${category}' added` });
+  }
+  for (const [skill, category] of was) {
+    const moved = now.get(skill);
+    if (moved === undefined) {
+      changes.push({ section: 'skills', entity: skill, kind: 'removed', before: category, message: `skill '${skill}' removed from ${category}` });
+    } else if (moved !== category) {
+      changes.push({
+        section: 'skills',
+        entity: skill,
+        kind: 'moved',
+        before: category,
+        after: moved,
+        message: `skill '${skill}' moved from ${category} to ${moved}`,
+      });
+    }
+  }
+  for (const [skill, category] of now) {
+    if (!was.has(skill)) {
+      changes.push({ section: 'skills', entity: skill, kind: 'added', after: category, message: `skill '${skill}' added to ${category}` });
+    }
+  }
+
+  return [...changes, ...diffTags('skills', undefined, 'soft', before.soft ?? [], after.soft ?? [])];
+}
+
+/**
+ * Every change from one version of the CV to another, in document order.
+ */
+export function diffCV(before: CVSource, after: CVSource): CVChange[] {
+  return [
+    ...diffFields('personal', undefined, before.personal, after.personal),
+    ...diffValue('summary', undefined, 'summary', before.summary, after.summary),
+    ...diffEntries(
+      'keyAchievements',
+      before.keyAchievements ?? [],
+      after.keyAchievements ?? [],
+      achievement => truncate(english(achievement.title), 40),
+      achievement => truncate(english(achievement.description)),
+    ),
+    ...diffEntries('experience', before.experience, after.experience, exp => exp.id, exp => `${english(exp.title)} at ${exp.company}`),
+    ...diffSkills(before.skills, after.skills),
+    ...diffEntries('education', before.education, after.education, edu => edu.id, edu => `${edu.degree}, ${edu.institution}`),
+    ...diffEntries('projects', before.projects ?? [], after.projects ?? [], proj => proj.id, proj => proj.name),
+    ...diffEntries('certifications', before.certifications ?? [], after.certifications ?? [], cert => cert.id, cert => cert.name),
+    ...diffEntries('languages', before.languages ?? [], after.languages ?? [], lang => lang.name, lang => lang.proficiency),
+  ];
+}
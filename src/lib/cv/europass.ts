@@ -0,0 +1,305 @@
+import type { CVData, Language } from '../../types/cv';
+import { DEFAULT_LOCALE, languageOf } from './i18n';
+import { cvLabels } from './labels';
+
+/**
+ * Europass CV (SkillsPassport v3.4 XML) export.
+ *
+ * Produces the subset of the Europass structure described by
+ * `scripts/schemas/europass-v3.4-subset.xsd`: identification, headline,
+ * work experience, education, language skills (as CEFR levels), other
+ * skills and achievements (projects, certifications).
+ */
+
+export const EUROPASS_NAMESPACE = 'http://europass.cedefop.europa.eu/Europass';
+
+export type CEFRLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+/**
+ * Self-assessed CEFR level for each proficiency. `null` marks a mother
+ * tongue, which Europass lists separately and without levels.
+ */
+export const CEFR_LEVELS: Record<Language['proficiency'], CEFRLevel | null> = {
+  Native: null,
+  Fluent: 'C1',
+  Professional: 'B2',
+  Intermediate: 'B1',
+  Basic: 'A2',
+};
+
+export interface EuropassOptions {
+  /** Timestamp written to DocumentInfo/CreationDate */
+  createdAt?: Date;
+  /** Locale the CV data was localized to; its language is the document's */
+  locale?: string;
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Europass dates are split into a gYear and a gMonth attribute, e.g.
+ * `year="2025" month="--06"`.
+ */
+function dateAttributes(date: string): string {
+  const [year, month] = date.split('-');
+  return month ? `year="${year}" month="--${month}"` : `year="${year}"`;
+}
+
+/** A null end date is written as an ongoing period. */
+function period(indent: string, startDate: string, endDate: string | null): string {
+  const lines = [`${indent}<Period>`, `${indent}  <From ${dateAttributes(startDate)}/>`];
+  if (endDate) {
+    lines.push(`${indent}  <To ${dateAttributes(endDate)}/>`);
+  } else {
+    lines.push(`${indent}  <Current>true</Current>`);
+  }
+  lines.push(`${indent}</Period>`);
+  return lines.join('\n');
+}
+
+/** Europass rich-text fields hold escaped HTML. */
+function richText(description: string | undefined, items: string[] = []): string {
+  const html = [
+    description ? `<p>${escapeXml(description)}</p>` : '',
+    items.length > 0 ? `<ul>${items.map(item => `<li>${escapeXml(item)}</li>`).join('')}</ul>` : '',
+  ].join('');
+  return escapeXml(html);
+}
+
+function splitLocation(location: string): { municipality: string; country?: string } {
+  const parts = location.split(',').map(part => part.trim());
+  if (parts.length === 1) return { municipality: parts[0] };
+  return { municipality: parts.slice(0, -1).join(', '), country: parts[parts.length - 1] };
+}
+
+/** Country names to codes, by language */
+const countryCodes = new Map<string, Map<string, string>>();
+
+function countryNames(language: string): Map<string, string> {
+  let codes = countryCodes.get(language);
+  if (!codes) {
+    codes = new Map();
+    const displayNames = new Intl.DisplayNames([language], { type: 'region' });
+    for (let first = 65; first <= 90; first++) {
+      for (let second = 65; second <= 90; second++) {
+        const code = String.fromCharCode(first, second);
+        const name = displayNames.of(code);
+        if (name && name !== code) codes.set(name.toLowerCase(), code);
+      }
+    }
+    countryCodes.set(language, codes);
+  }
+  return codes;
+}
+
+/**
+ * The ISO 3166-1 alpha-2 code for a country name in the CV's language or
+ * in English, e.g. "Portugal" -> "PT". A code is accepted as is.
+ */
+export function countryCode(country: string, locale: string = DEFAULT_LOCALE): string | undefined {
+  const name = country.trim().toLowerCase();
+  if (/^[a-z]{2}$/.test(name)) return name.toUpperCase();
+  return countryNames(languageOf(locale)).get(name) ?? countryNames(DEFAULT_LOCALE).get(name);
+}
+
+function address(indent: string, location: string, locale: string): string {
+  const { municipality, country } = splitLocation(location);
+  const lines = [
+    `${indent}<Address>`,
+    `${indent}  <Contact>`,
+    `${indent}    <Municipality>${escapeXml(municipality)}</Municipality>`,
+  ];
+  if (country) {
+    const code = countryCode(country, locale);
+    // Importers key on the code; the label keeps the name as written
+    lines.push(code
+      ? `${indent}    <Country><Code>${code}</Code><Label>${escapeXml(country)}</Label></Country>`
+      : `${indent}    <Country><Label>${escapeXml(country)}</Label></Country>`);
+  }
+  lines.push(`${indent}  </Contact>`, `${indent}</Address>`);
+  return lines.join('\n');
+}
+
+export function toEuropassXML(cv: CVData, options: EuropassOptions = {}): string {
+  const createdAt = (options.createdAt ?? new Date()).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const nameParts = cv.personal.name.trim().split(/\s+/);
+  const surname = nameParts.length > 1 ? nameParts.pop()! : '';
+  const firstName = nameParts.join(' ');
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const labels = cvLabels(locale);
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(`<SkillsPassport xmlns="${EUROPASS_NAMESPACE}" locale="${languageOf(locale)}">`);
+
+  lines.push('  <DocumentInfo>');
+  lines.push('    <DocumentType>ECV</DocumentType>');
+  lines.push(`    <CreationDate>${createdAt}</CreationDate>`);
+  lines.push('    <XSDVersion>V3.4</XSDVersion>');
+  lines.push('    <Generator>cv:europass</Generator>');
+  lines.push('  </DocumentInfo>');
+
+  lines.push('  <LearnerInfo>');
+
+  // Identification
+  lines.push('    <Identification>');
+  lines.push('      <PersonName>');
+  lines.push(`        <FirstName>${escapeXml(firstName)}</FirstName>`);
+  lines.push(`        <Surname>${escapeXml(surname)}</Surname>`);
+  lines.push('      </PersonName>');
+  lines.push('      <ContactInfo>');
+  lines.push(address('        ', cv.personal.location, locale));
+  lines.push(`        <Email><Contact>${escapeXml(cv.personal.email)}</Contact></Email>`);
+  if (cv.personal.phone) {
+    lines.push('        <TelephoneList>');
+    lines.push(`          <Telephone><Contact>${escapeXml(cv.personal.phone)}</Contact></Telephone>`);
+    lines.push('        </TelephoneList>');
+  }
+  const websites = [
+    cv.personal.website && { url: cv.personal.website, label: 'personal' },
+    cv.personal.linkedin && { url: cv.personal.linkedin, label: 'LinkedIn' },
+    cv.personal.github && { url: cv.personal.github, label: 'GitHub' },
+  ].filter((site): site is { url: string; label: string } => Boolean(site));
+  if (websites.length > 0) {
+    lines.push('        <WebsiteList>');
+    for (const site of websites) {
+      lines.push('          <Website>');
+      lines.push(`            <Contact>${escapeXml(site.url)}</Contact>`);
+      lines.push(`            <Use><Label>${escapeXml(site.label)}</Label></Use>`);
+      lines.push('          </Website>');
+    }
+    lines.push('        </WebsiteList>');
+  }
+  lines.push('      </ContactInfo>');
+  lines.push('    </Identification>');
+
+  // Headline
+  lines.push('    <Headline>');
+  lines.push('      <Type><Label>Position</Label></Type>');
+  lines.push(`      <Description><Label>${escapeXml(cv.personal.title)}</Label></Description>`);
+  lines.push('    </Headline>');
+
+  // Work experience
+  if (cv.experience.length > 0) {
+    lines.push('    <WorkExperienceList>');
+    for (const exp of cv.experience) {
+      lines.push('      <WorkExperience>');
+      lines.push(period('        ', exp.startDate, exp.endDate));
+      lines.push(`        <Position><Label>${escapeXml(exp.title)}</Label></Position>`);
+      lines.push(`        <Activities>${richText(exp.description, exp.achievements)}</Activities>`);
+      lines.push('        <Employer>');
+      lines.push(`          <Name>${escapeXml(exp.company)}</Name>`);
+      lines.push('          <ContactInfo>');
+      lines.push(address('            ', exp.location, locale));
+      lines.push('          </ContactInfo>');
+      lines.push('        </Employer>');
+      lines.push('      </WorkExperience>');
+    }
+    lines.push('    </WorkExperienceList>');
+  }
+
+  // Education
+  if (cv.education.length > 0) {
+    lines.push('    <EducationList>');
+    for (const edu of cv.education) {
+      lines.push('      <Education>');
+      lines.push(period('        ', edu.startDate, edu.endDate));
+      lines.push(`        <Title>${escapeXml(edu.degree)}</Title>`);
+      if (edu.description || edu.achievements?.length) {
+        lines.push(`        <Activities>${richText(edu.description, edu.achievements)}</Activities>`);
+      }
+      lines.push('        <Organisation>');
+      lines.push(`          <Name>${escapeXml(edu.institution)}</Name>`);
+      lines.push('          <ContactInfo>');
+      lines.push(address('            ', edu.location, locale));
+      lines.push('          </ContactInfo>');
+      lines.push('        </Organisation>');
+      lines.push('      </Education>');
+    }
+    lines.push('    </EducationList>');
+  }
+
+  // Skills
+  const languages = cv.languages ?? [];
+  const motherTongues = languages.filter(lang => CEFR_LEVELS[lang.proficiency] === null);
+  const foreignLanguages = languages.filter(lang => CEFR_LEVELS[lang.proficiency] !== null);
+
+  lines.push('    <Skills>');
+  if (languages.length > 0) {
+    lines.push('      <Linguistic>');
+    if (motherTongues.length > 0) {
+      lines.push('        <MotherTongueList>');
+      for (const lang of motherTongues) {
+        lines.push(`          <MotherTongue><Description><Label>${escapeXml(lang.name)}</Label></Description></MotherTongue>`);
+      }
+      lines.push('        </MotherTongueList>');
+    }
+    if (foreignLanguages.length > 0) {
+      lines.push('        <ForeignLanguageList>');
+      for (const lang of foreignLanguages) {
+        const level = CEFR_LEVELS[lang.proficiency];
+        lines.push('          <ForeignLanguage>');
+        lines.push(`            <Description><Label>${escapeXml(lang.name)}</Label></Description>`);
+        lines.push('            <ProficiencyLevel>');
+        for (const skill of ['Listening', 'Reading', 'SpokenInteraction', 'SpokenProduction', 'Writing']) {
+          lines.push(`              <${skill}>${level}</${skill}>`);
+        }
+        lines.push('            </ProficiencyLevel>');
+        lines.push('          </ForeignLanguage>');
+      }
+      lines.push('        </ForeignLanguageList>');
+    }
+    lines.push('      </Linguistic>');
+  }
+  if (cv.skills.soft && cv.skills.soft.length > 0) {
+    lines.push(`      <Communication><Description>${richText(undefined, cv.skills.soft)}</Description></Communication>`);
+  }
+  const technical = cv.skills.technical.map(category => `${category.category}: ${category.skills.join(', ')}`);
+  lines.push(`      <Computer><Description>${richText(undefined, technical)}</Description></Computer>`);
+  lines.push('    </Skills>');
+
+  // Achievements: projects and certifications
+  const achievements: { title: string; description: string }[] = [];
+  for (const proj of cv.projects ?? []) {
+    const links = [proj.url, proj.github].filter((link): link is string => Boolean(link));
+    achievements.push({
+      title: labels.projects,
+      description: richText(`${proj.name}: ${proj.description}`, [
+        ...proj.highlights,
+        ...links,
+        `${labels.technologies}: ${proj.technologies.join(', ')}`,
+      ]),
+    });
+  }
+  for (const cert of cv.certifications ?? []) {
+    const details = [`${labels.issued} ${cert.date}`];
+    if (cert.credentialId) details.push(`${labels.credentialId}: ${cert.credentialId}`);
+    if (cert.url) details.push(cert.url);
+    achievements.push({
+      title: labels.certifications,
+      description: richText(`${cert.name} (${cert.issuer})`, details),
+    });
+  }
+  if (achievements.length > 0) {
+    lines.push('    <AchievementList>');
+    for (const achievement of achievements) {
+      lines.push('      <Achievement>');
+      lines.push(`        <Title><Label>${escapeXml(achievement.title)}</Label></Title>`);
+      lines.push(`        <Description>${achievement.description}</Description>`);
+      lines.push('      </Achievement>');
+    }
+    lines.push('    </AchievementList>');
+  }
+
+  lines.push('  </LearnerInfo>');
+  lines.push('</SkillsPassport>');
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,47 @@
+import { DEFAULT_LOCALE } from './i18n';
+import { cvLabels } from './labels';
+
+/**
+ * Format a `YYYY` or `YYYY-MM` date for display, e.g. "Jun 2025" or "2013",
+ * with month names in the given locale. A null date means the entry is
+ * ongoing ("Present", "Atual").
+ */
+export function formatDate(dateStr: string | null, locale: string = DEFAULT_LOCALE): string {
+  if (!dateStr) return cvLabels(locale).present;
+  const [year, month] = dateStr.split('-');
+  if (!month) return year;
+  const date = new Date(parseInt(year), parseInt(month) - 1);
+  return date.toLocaleDateString(locale, { month: 'short', year: 'numeric' });
+}
+
+/**
+ * Format a date as `MM/YYYY`, the form applicant tracking systems parse
+ * most reliably. Year-only dates stay `YYYY`.
+ */
+export function formatNumericDate(dateStr: string | null, locale: string = DEFAULT_LOCALE): string {
+  if (!dateStr) return cvLabels(locale).present;
+  const [year, month] = dateStr.split('-');
+  return month ? `${month}/${year}` : year;
+}
+
+/**
+ * Human-readable duration between two dates, e.g. "2 years, 3 months".
+ */
+export function calculateDuration(start: string, end: string | null, locale: string = DEFAULT_LOCALE): string {
+  const labels = cvLabels(locale);
+  const startDate = new Date(start);
+  const endDate = end ? new Date(end) : new Date();
+
+  const months = (endDate.getFullYear() - startDate.getFullYear()) * 12 +
+                 (endDate.getMonth() - startDate.getMonth());
+
+  const years = Math.floor(months / 12);
+  const remainingMonths = months % 12;
+
+  const monthText = `${remainingMonths} ${remainingMonths === 1 ? labels.month : labels.months}`;
+  const yearText = `${years} ${years === 1 ? labels.year : labels.years}`;
+
+  if (years === 0) return monthText;
+  if (remainingMonths === 0) return yearText;
+  return `${yearText}, ${monthText}`;
+}
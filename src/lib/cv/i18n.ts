@@ -0,0 +1,149 @@
+import type { CVData, LocalizedString } from '../../types/cv';
+import type { IssuePath } from './schema';
+
+/**
+ * Translations of cv.json.
+ *
+ * Translatable fields hold either a plain (English) string or an object of
+ * translations keyed by locale, which must include `en`. A CV in a given
+ * locale takes the exact locale, then its language ("pt" for "pt-BR"),
+ * then English.
+ */
+
+export const DEFAULT_LOCALE = 'en';
+
+/** A BCP 47 language tag with an optional region, e.g. "pt" or "pt-BR" */
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+
+/** The language part of a locale: "pt-BR" becomes "pt" */
+export function languageOf(locale: string): string {
+  return locale.split('-')[0].toLowerCase();
+}
+
+/**
+ * The translation of a value for a locale, falling back to English.
+ */
+export function localizeText(value: LocalizedString, locale: string = DEFAULT_LOCALE): string {
+  if (typeof value === 'string') return value;
+  return value[locale] ?? value[languageOf(locale)] ?? value.en;
+}
+
+/**
+ * Whether a value has a translation for a locale, either exactly or for its
+ * language. Plain strings only count as translated into English.
+ */
+function isTranslated(value: LocalizedString, locale: string): boolean {
+  const language = languageOf(locale);
+  if (language === DEFAULT_LOCALE) return true;
+  return typeof value !== 'string' && (value[locale] !== undefined || value[language] !== undefined);
+}
+
+/**
+ * Rebuild a CV with every translatable field passed through `map`, which
+ * also gets the field's path. The one place that knows which fields are
+ * translatable.
+ */
+export function mapLocalized<From, To>(
+  cv: CVData<From>,
+  map: (value: From, path: IssuePath) => To,
+): CVData<To> {
+  return {
+    ...cv,
+    personal: { ...cv.personal, title: map(cv.personal.title, ['personal', 'title']) },
+    summary: map(cv.summary, ['summary']),
+    keyAchievements: cv.keyAchievements?.map((achievement, index) => ({
+      title: map(achievement.title, ['keyAchievements', index, 'title']),
+      description: map(achievement.description, ['keyAchievements', index, 'description']),
+    })),
+    experience: cv.experience.map((exp, index) => ({
+      ...exp,
+      title: map(exp.title, ['experience', index, 'title']),
+      description: map(exp.description, ['experience', index, 'description']),
+      achievements: exp.achievements.map((item, i) => map(item, ['experience', index, 'achievements', i])),
+    })),
+    education: cv.education.map((edu, index) => ({
+      ...edu,
+      description: edu.description === undefined
+        ? undefined
+        : map(edu.description, ['education', index, 'description']),
+      achievements: edu.achievements?.map((item, i) => map(item, ['education', index, 'achievements', i])),
+    })),
+    projects: cv.projects?.map((proj, index) => ({
+      ...proj,
+      description: map(proj.description, ['projects', index, 'description']),
+      highlights: proj.highlights.map((item, i) => map(item, ['projects', index, 'highlights', i])),
+    })),
+  };
+}
+
+/**
+ * The CV in one locale, with English wherever a translation is missing.
+ */
+export function localizeCV(cv: CVData<LocalizedString>, locale: string = DEFAULT_LOCALE): CVData {
+  return mapLocalized(cv, value => localizeText(value, locale));
+}
+
+/**
+ * Every translatable field of a CV with its path, in document order.
+ */
+export function translatableFields(cv: CVData<LocalizedString>): { path: IssuePath; value: LocalizedString }[] {
+  const fields: { path: IssuePath; value: LocalizedString }[] = [];
+  mapLocalized(cv, (value, path) => {
+    fields.push({ path, value });
+    return value;
+  });
+  return fields;
+}
+
+/**
+ * Paths of the translatable fields that would fall back to English in the
+ * given locale, e.g. `['experience', 2, 'achievements', 0]`.
+ */
+export function untranslatedFields(cv: CVData<LocalizedString>, locale: string): IssuePath[] {
+  return translatableFields(cv)
+    .filter(field => !isTranslated(field.value, locale))
+    .map(field => field.path);
+}
+
+/**
+ * Every locale cv.json has at least one translation for, English first.
+ */
+export function translationLocales(cv: CVData<LocalizedString>): string[] {
+  const locales = new Set([DEFAULT_LOCALE]);
+  for (const { value } of translatableFields(cv)) {
+    if (typeof value !== 'string') Object.keys(value).forEach(locale => locales.add(locale));
+  }
+  return [...locales];
+}
+
+/**
+ * Carry the translations of a previous cv.json over to English-only data,
+ * e.g. after an import: a field keeps its translations as long as its
+ * English text is unchanged.
+ */
+export function keepTranslations(cv: CVData, previous: CVData<LocalizedString>): CVData<LocalizedString> {
+  const translations = new Map<string, LocalizedString>();
+  for (const { value } of translatableFields(previous)) {
+    if (typeof value !== 'string') translations.set(value.en, value);
+  }
+  return mapLocalized(cv, value => translations.get(value) ?? value);
+}
+
+/**
+ * Path of a /cv page: English at /cv/, other languages under their locale,
+ * e.g. /pt/cv/tech-lead/.
+ */
+export function cvPagePath(locale: string, profile?: string): string {
+  const prefix = locale === DEFAULT_LOCALE ? '' : `/${locale}`;
+  return `${prefix}/cv/${profile ? `${profile}/` : ''}`;
+}
+
+/**
+ * The same /cv page in every other locale, for hreflang links and the
+ * language switch.
+ */
+export function cvPageAlternates(locales: string[], current: string, profile?: string): { lang: string; href: string }[] {
+  return locales
+    .filter(locale => locale !== current)
+    .map(locale => ({ lang: locale, href: cvPagePath(locale, profile) }));
+}
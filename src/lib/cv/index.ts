@@ -0,0 +1,56 @@
+export { cvSchema, validateCV, parseCV, parseCVSource, CVDataError, toJsonPath } from './schema';
+export type { CVIssue, CVValidationResult, IssuePath } from './schema';
+export { loadCV, loadCVSource, saveCV, stringifyCV, CV_JSON_PATH } from './load';
+export {
+  DEFAULT_LOCALE,
+  LOCALE_PATTERN,
+  languageOf,
+  localizeText,
+  mapLocalized,
+  localizeCV,
+  translatableFields,
+  untranslatedFields,
+  translationLocales,
+  keepTranslations,
+  cvPagePath,
+  cvPageAlternates,
+} from './i18n';
+export { CV_LABELS, cvLabels, isSectionHeading } from './labels';
+export type { CVLabels } from './labels';
+export { formatDate, formatNumericDate, calculateDuration } from './format';
+export {
+  isVisible,
+  matchesVisibility,
+  parseVisibilityTags,
+  filterCV,
+  collectVisibilityTags,
+} from './visibility';
+export type { Visible } from './visibility';
+export {
+  PROFILES_JSON_PATH,
+  validateProfiles,
+  unusedProfileTags,
+  parseProfiles,
+  loadProfiles,
+  resolveProfile,
+  applyProfile,
+} from './profiles';
+export type { ApplyProfileOptions, ProfilesValidationResult } from './profiles';
+export { JSON_RESUME_SCHEMA_URL, toJSONResume, fromJSONResume } from './jsonresume';
+export type { JSONResumeImportResult } from './jsonresume';
+export { EUROPASS_NAMESPACE, CEFR_LEVELS, toEuropassXML } from './europass';
+export type { CEFRLevel, EuropassOptions } from './europass';
+export { escapeLatex, exportToLatex } from './latex';
+export type { LatexOptions } from './latex';
+export {
+  skillKey,
+  containsKeyword,
+  collectSkills,
+  cvTextFields,
+  keywordCoverage,
+} from './keywords';
+export type { SkillKeyword, KeywordLocation, KeywordMatch, KeywordCoverage } from './keywords';
+export { diffCV } from './diff';
+export type { CVChange, CVSection } from './diff';
+export { SYNONYMS, extractJobTerms, scoreText, estimateLines, tailorCV } from './tailor';
+export type { JobTerm, TailorOptions, TailorDecision, TailorResult } from './tailor';
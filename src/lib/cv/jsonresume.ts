@@ -0,0 +1,431 @@
+import type {
+  CVData,
+  Certification,
+  Education,
+  Experience,
+  Language,
+  Project,
+} from '../../types/cv';
+import type {
+  JSONResume,
+  JSONResumeBasics,
+  JSONResumeCertificate,
+  JSONResumeEducation,
+  JSONResumeLanguage,
+  JSONResumeProject,
+  JSONResumeWork,
+} from '../../types/jsonresume';
+
+/**
+ * Conversion between CVData and the JSON Resume v1.0.0 schema.
+ *
+ * JSON Resume has no notion of our `id` / `visibility` fields, per-role
+ * skills, education locations or credential IDs. Exports drop them and
+ * imports keep them from the matching entry already in cv.json.
+ */
+
+export const JSON_RESUME_SCHEMA_URL =
+  'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+const SOFT_SKILLS_NAME = 'Soft Skills';
+
+function profileUrl(network: string, url: string) {
+  const username = new URL(url).pathname.split('/').filter(Boolean).pop();
+  return { network, username, url };
+}
+
+/** Empty sections are left out rather than exported as `[]` */
+function nonEmpty<T>(list: T[] | undefined): T[] | undefined {
+  return list && list.length > 0 ? list : undefined;
+}
+
+export function toJSONResume(cv: CVData): JSONResume {
+  const [city, ...rest] = cv.personal.location.split(',').map(part => part.trim());
+
+  const profiles = [];
+  if (cv.personal.linkedin) profiles.push(profileUrl('LinkedIn', cv.personal.linkedin));
+  if (cv.personal.github) profiles.push(profileUrl('GitHub', cv.personal.github));
+
+  const skills = cv.skills.technical.map(category => ({
+    name: category.category,
+    keywords: category.skills,
+  }));
+  if (cv.skills.soft && cv.skills.soft.length > 0) {
+    skills.push({ name: SOFT_SKILLS_NAME, keywords: cv.skills.soft });
+  }
+
+  return {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: {
+      name: cv.personal.name,
+      label: cv.personal.title,
+      email: cv.personal.email,
+      phone: cv.personal.phone,
+      url: cv.personal.website,
+      summary: cv.summary,
+      location: { city, region: rest.join(', ') || undefined },
+      profiles,
+    },
+    work: cv.experience.map(exp => ({
+      name: exp.company,
+      position: exp.title,
+      location: exp.location,
+      startDate: exp.startDate,
+      endDate: exp.endDate ?? undefined,
+      summary: exp.description,
+      highlights: exp.achievements,
+    })),
+    education: cv.education.map(edu => {
+      const [studyType, ...area] = edu.degree.split(', ');
+      return {
+        institution: edu.institution,
+        studyType,
+        area: area.join(', ') || undefined,
+        startDate: edu.startDate,
+        endDate: edu.endDate ?? undefined,
+        courses: edu.achievements,
+      };
+    }),
+    projects: nonEmpty(cv.projects)?.map(proj => ({
+      name: proj.name,
+      description: proj.description,
+      highlights: proj.highlights,
+      keywords: proj.technologies,
+      url: proj.url ?? proj.github,
+      startDate: proj.startDate,
+      endDate: proj.endDate ?? undefined,
+    })),
+    certificates: nonEmpty(cv.certifications)?.map(cert => ({
+      name: cert.name,
+      issuer: cert.issuer,
+      date: cert.date,
+      url: cert.url,
+    })),
+    skills,
+    languages: nonEmpty(cv.languages)?.map(lang => ({
+      language: lang.name,
+      fluency: lang.proficiency,
+    })),
+    meta: { version: 'v1.0.0' },
+  };
+}
+
+// --- Import ---
+
+export interface JSONResumeImportResult {
+  cv: CVData;
+  /** JSON paths of resume fields that have no CVData equivalent */
+  unmapped: string[];
+  /**
+   * Existing entries the resume has no match for, e.g. "experience exp-8
+   * (Lead Engineer at Acme)". Kept in place unless `prune` is set, since
+   * exports leave hidden entries out.
+   */
+  unmatched: string[];
+}
+
+export interface JSONResumeImportOptions {
+  /** Remove existing entries the resume has no match for */
+  prune?: boolean;
+}
+
+/** Fields of each JSON Resume object that the importer understands. */
+const KNOWN_FIELDS = {
+  root: ['$schema', 'basics', 'work', 'education', 'projects', 'certificates', 'skills', 'languages', 'meta'],
+  basics: ['name', 'label', 'email', 'phone', 'url', 'summary', 'location', 'profiles'],
+  location: ['city', 'region'],
+  profile: ['network', 'username', 'url'],
+  work: ['name', 'position', 'location', 'startDate', 'endDate', 'summary', 'description', 'highlights'],
+  education: ['institution', 'studyType', 'area', 'startDate', 'endDate', 'courses'],
+  project: ['name', 'description', 'highlights', 'keywords', 'url', 'startDate', 'endDate'],
+  certificate: ['name', 'issuer', 'date', 'url'],
+  skill: ['name', 'keywords'],
+  language: ['language', 'fluency'],
+};
+
+function collectUnmapped(value: unknown, known: string[], path: string, unmapped: string[]) {
+  if (!value || typeof value !== 'object') return;
+  for (const [key, field] of Object.entries(value)) {
+    if (!known.includes(key) && field !== undefined && field !== null && field !== '') {
+      unmapped.push(`${path}.${key}`);
+    }
+  }
+}
+
+function collectUnmappedList(list: unknown, known: string[], path: string, unmapped: string[]) {
+  if (!Array.isArray(list)) return;
+  list.forEach((item, index) => collectUnmapped(item, known, `${path}[${index}]`, unmapped));
+}
+
+/** JSON Resume allows full ISO dates; we keep YYYY-MM at most. */
+function toCVDate(date: string | undefined): string | null {
+  if (!date) return null;
+  return date.slice(0, 7);
+}
+
+function toProficiency(fluency: string | undefined): Language['proficiency'] | undefined {
+  const value = fluency?.toLowerCase() ?? '';
+  if (value.includes('native')) return 'Native';
+  if (value.includes('fluent')) return 'Fluent';
+  if (value.includes('professional')) return 'Professional';
+  if (value.includes('intermediate')) return 'Intermediate';
+  if (value.includes('basic') || value.includes('elementary') || value.includes('beginner')) return 'Basic';
+  return undefined;
+}
+
+/**
+ * Generate the next free id for a section, e.g. `exp-10` after `exp-9`.
+ */
+function nextId(prefix: string, used: Set<string>): string {
+  let n = 1;
+  for (const id of used) {
+    const match = id.match(new RegExp(`^${prefix}-(\\d+)$`));
+    if (match) n = Math.max(n, parseInt(match[1]) + 1);
+  }
+  const id = `${prefix}-${n}`;
+  used.add(id);
+  return id;
+}
+
+function same(a: string | undefined, b: string | undefined): boolean {
+  return (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+}
+
+/**
+ * Put back the existing entries an imported section has no match for, each
+ * before the entry that followed it in cv.json, so the order survives.
+ */
+function keepUnmatched<T extends { id: string }>(
+  section: string,
+  imported: T[],
+  existing: T[],
+  describe: (item: T) => string,
+  options: JSONResumeImportOptions,
+  unmatched: string[],
+): T[] {
+  const importedIds = new Set(imported.map(item => item.id));
+  const items = [...imported];
+
+  existing.forEach((item, index) => {
+    if (importedIds.has(item.id)) return;
+    unmatched.push(`${section} ${item.id} (${describe(item)})`);
+    if (options.prune) return;
+
+    const next = existing.slice(index + 1).find(candidate => importedIds.has(candidate.id));
+    const position = next ? items.findIndex(candidate => candidate.id === next.id) : -1;
+    items.splice(position === -1 ? items.length : position, 0, item);
+  });
+  return items;
+}
+
+function importWork(work: JSONResumeWork, existing: Experience[], used: Set<string>): Experience {
+  const startDate = toCVDate(work.startDate) ?? '';
+  const match =
+    existing.find(exp => same(exp.company, work.name) && exp.startDate === startDate) ??
+    existing.find(exp => same(exp.company, work.name) && same(exp.title, work.position));
+
+  return {
+    ...match,
+    id: match?.id ?? nextId('exp', used),
+    title: work.position ?? match?.title ?? '',
+    company: work.name ?? match?.company ?? '',
+    location: work.location ?? match?.location ?? '',
+    startDate,
+    endDate: toCVDate(work.endDate),
+    description: work.summary ?? work.description ?? match?.description ?? '',
+    achievements: work.highlights ?? match?.achievements ?? [],
+    skills: match?.skills ?? [],
+    visibility: match?.visibility ?? ['all'],
+  };
+}
+
+function importEducation(edu: JSONResumeEducation, existing: Education[], used: Set<string>): Education {
+  const startDate = toCVDate(edu.startDate) ?? '';
+  const match =
+    existing.find(item => same(item.institution, edu.institution) && item.startDate.slice(0, 4) === startDate.slice(0, 4)) ??
+    existing.find(item => same(item.institution, edu.institution));
+
+  return {
+    ...match,
+    id: match?.id ?? nextId('edu', used),
+    degree: [edu.studyType, edu.area].filter(Boolean).join(', ') || match?.degree || '',
+    institution: edu.institution ?? match?.institution ?? '',
+    location: match?.location ?? '',
+    startDate,
+    endDate: toCVDate(edu.endDate),
+    achievements: edu.courses ?? match?.achievements,
+    visibility: match?.visibility ?? ['all'],
+  };
+}
+
+function importProject(proj: JSONResumeProject, existing: Project[], used: Set<string>): Project {
+  const match = existing.find(item => same(item.name, proj.name));
+  const isGitHub = proj.url?.startsWith('https://github.com/');
+
+  return {
+    ...match,
+    id: match?.id ?? nextId('proj', used),
+    name: proj.name ?? match?.name ?? '',
+    description: proj.description ?? match?.description ?? '',
+    url: proj.url && !isGitHub ? proj.url : match?.url,
+    github: proj.url && isGitHub ? proj.url : match?.github,
+    startDate: toCVDate(proj.startDate) ?? match?.startDate,
+    endDate: proj.startDate ? toCVDate(proj.endDate) : match?.endDate,
+    technologies: proj.keywords ?? match?.technologies ?? [],
+    highlights: proj.highlights ?? match?.highlights ?? [],
+    visibility: match?.visibility ?? ['all'],
+  };
+}
+
+function importCertificate(cert: JSONResumeCertificate, existing: Certification[], used: Set<string>): Certification {
+  const match = existing.find(item => same(item.name, cert.name) && same(item.issuer, cert.issuer));
+
+  return {
+    ...match,
+    id: match?.id ?? nextId('cert', used),
+    name: cert.name ?? match?.name ?? '',
+    issuer: cert.issuer ?? match?.issuer ?? '',
+    date: toCVDate(cert.date) ?? match?.date ?? '',
+    url: cert.url ?? match?.url,
+    visibility: match?.visibility ?? ['all'],
+  };
+}
+
+function importBasics(basics: JSONResumeBasics, cv: CVData): Pick<CVData, 'personal' | 'summary'> {
+  const linkedin = basics.profiles?.find(profile => same(profile.network, 'LinkedIn'))?.url;
+  const github = basics.profiles?.find(profile => same(profile.network, 'GitHub'))?.url;
+  const location = [basics.location?.city, basics.location?.region].filter(Boolean).join(', ');
+
+  return {
+    personal: {
+      ...cv.personal,
+      name: basics.name ?? cv.personal.name,
+      title: basics.label ?? cv.personal.title,
+      email: basics.email ?? cv.personal.email,
+      phone: basics.phone ?? cv.personal.phone,
+      website: basics.url ?? cv.personal.website,
+      location: location || cv.personal.location,
+      linkedin: linkedin ?? cv.personal.linkedin,
+      github: github ?? cv.personal.github,
+    },
+    summary: basics.summary ?? cv.summary,
+  };
+}
+
+/**
+ * Merge a JSON Resume document into an existing CV.
+ *
+ * Sections present in the resume replace ours; sections it omits are left
+ * alone. Entries are matched to existing ones (by company and start date,
+ * institution, project name, ...) so their `id`, `visibility` and any
+ * fields JSON Resume can't express survive the round trip. New entries get
+ * fresh ids and `["all"]` visibility. Existing entries without a match,
+ * such as hidden ones a default export leaves out, are kept and reported
+ * in `unmatched`; with `prune` they are removed instead.
+ */
+export function fromJSONResume(
+  resume: JSONResume,
+  cv: CVData,
+  options: JSONResumeImportOptions = {},
+): JSONResumeImportResult {
+  const unmapped: string[] = [];
+  const unmatched: string[] = [];
+  collectUnmapped(resume, KNOWN_FIELDS.root, '$', unmapped);
+  collectUnmapped(resume.basics, KNOWN_FIELDS.basics, '$.basics', unmapped);
+  collectUnmapped(resume.basics?.location, KNOWN_FIELDS.location, '$.basics.location', unmapped);
+  collectUnmappedList(resume.basics?.profiles, KNOWN_FIELDS.profile, '$.basics.profiles', unmapped);
+  collectUnmappedList(resume.work, KNOWN_FIELDS.work, '$.work', unmapped);
+  collectUnmappedList(resume.education, KNOWN_FIELDS.education, '$.education', unmapped);
+  collectUnmappedList(resume.projects, KNOWN_FIELDS.project, '$.projects', unmapped);
+  collectUnmappedList(resume.certificates, KNOWN_FIELDS.certificate, '$.certificates', unmapped);
+  collectUnmappedList(resume.skills, KNOWN_FIELDS.skill, '$.skills', unmapped);
+  collectUnmappedList(resume.languages, KNOWN_FIELDS.language, '$.languages', unmapped);
+
+  resume.basics?.profiles?.forEach((profile, index) => {
+    if (!same(profile.network, 'LinkedIn') && !same(profile.network, 'GitHub')) {
+      unmapped.push(`$.basics.profiles[${index}]`);
+    }
+  });
+
+  const used = new Set([
+    ...cv.experience.map(item => item.id),
+    ...cv.education.map(item => item.id),
+    ...(cv.projects ?? []).map(item => item.id),
+    ...(cv.certifications ?? []).map(item => item.id),
+  ]);
+
+  const merged: CVData = {
+    ...cv,
+    ...(resume.basics ? importBasics(resume.basics, cv) : {}),
+  };
+
+  if (resume.work) {
+    merged.experience = keepUnmatched(
+      'experience',
+      resume.work.map(work => importWork(work, cv.experience, used)),
+      cv.experience,
+      exp => `${exp.title} at ${exp.company}`,
+      options,
+      unmatched,
+    );
+  }
+  if (resume.education) {
+    merged.education = keepUnmatched(
+      'education',
+      resume.education.map(edu => importEducation(edu, cv.education, used)),
+      cv.education,
+      edu => `${edu.degree}, ${edu.institution}`,
+      options,
+      unmatched,
+    );
+  }
+  if (resume.projects) {
+    merged.projects = keepUnmatched(
+      'projects',
+      resume.projects.map(proj => importProject(proj, cv.projects ?? [], used)),
+      cv.projects ?? [],
+      proj => proj.name,
+      options,
+      unmatched,
+    );
+  }
+  if (resume.certificates) {
+    merged.certifications = keepUnmatched(
+      'certifications',
+      resume.certificates.map(cert => importCertificate(cert, cv.certifications ?? [], used)),
+      cv.certifications ?? [],
+      cert => `${cert.name}, ${cert.issuer}`,
+      options,
+      unmatched,
+    );
+  }
+
+  if (resume.skills) {
+    const soft = resume.skills.find(skill => same(skill.name, SOFT_SKILLS_NAME));
+    merged.skills = {
+      technical: resume.skills
+        .filter(skill => skill !== soft)
+        .map(skill => {
+          // Keep the category's visibility, which the resume doesn't carry
+          const existing = cv.skills.technical.find(category => same(category.category, skill.name));
+          return { category: skill.name ?? '', skills: skill.keywords ?? [], visibility: existing?.visibility };
+        }),
+      soft: soft ? soft.keywords ?? [] : cv.skills.soft,
+    };
+  }
+
+  if (resume.languages) {
+    const languages: Language[] = [];
+    resume.languages.forEach((lang: JSONResumeLanguage, index) => {
+      const proficiency = toProficiency(lang.fluency);
+      if (!lang.language || !proficiency) {
+        unmapped.push(`$.languages[${index}].fluency`);
+        return;
+      }
+      languages.push({ name: lang.language, proficiency });
+    });
+    merged.languages = languages;
+  }
+
+  return { cv: merged, unmapped, unmatched };
+}
@@ -0,0 +1,189 @@
+import type { CVData } from '../../types/cv';
+
+/**
+ * Keyword coverage of a job description.
+ *
+ * Skills come from `skills.technical` and every role's `skills`. Spellings
+ * of the same skill ("React", "React.js", "ReactJS") are grouped so the
+ * report lists each skill once.
+ */
+
+export interface SkillKeyword {
+  /** First spelling found in the CV */
+  name: string;
+  /** Lowercase forms searched for in text */
+  variants: string[];
+}
+
+export interface KeywordLocation {
+  /** JSON path of the field, e.g. `$.experience[0].achievements[1]` */
+  path: string;
+  /** Human-readable place on the CV, e.g. "Experience > Frontend Team Lead, PrimeIT" */
+  label: string;
+}
+
+export interface KeywordMatch {
+  skill: string;
+  locations: KeywordLocation[];
+}
+
+export interface KeywordCoverage {
+  /** CV skills that appear in the job description */
+  matched: KeywordMatch[];
+  /** CV skills the job description doesn't mention */
+  missing: string[];
+}
+
+/**
+ * Grouping key: lowercase, without a parenthetical note or a `.js`/`js`
+ * suffix, letters and digits only. "React.js" and "ReactJS" both become "react".
+ */
+export function skillKey(skill: string): string {
+  return skill
+    .toLowerCase()
+    .replace(/\s*\(.*\)\s*$/, '')
+    .replace(/\.?js$/, '')
+    .replace(/[^a-z0-9+#]/g, '');
+}
+
+/**
+ * `.js` names whose bare form is an everyday word, so it isn't searched
+ * for on its own: "Next.js" shouldn't match "the next step".
+ */
+const COMMON_WORD_NAMES = new Set(['next']);
+
+/**
+ * The spellings to search for: as written, without a parenthetical note,
+ * and for `.js` technologies also "nodejs" and the bare "node".
+ */
+function skillVariants(skill: string): string[] {
+  const lower = skill.toLowerCase().trim();
+  const variants = [lower, lower.replace(/\s*\(.*\)\s*$/, '')];
+  if (lower.endsWith('.js')) {
+    const bare = lower.replace(/\.js$/, '');
+    variants.push(`${bare}js`);
+    if (!COMMON_WORD_NAMES.has(bare)) variants.push(bare);
+  }
+  return variants.filter(Boolean);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether `text` mentions any of the variants as a whole word, so "Java"
+ * doesn't match "JavaScript" and "Git" doesn't match "GitHub". A suffix
+ * after a dot isn't a word of its own either, so "js" doesn't match
+ * "Next.js" and "ts" doesn't match "config.ts".
+ */
+export function containsKeyword(text: string, variants: string[]): boolean {
+  const lower = text.toLowerCase();
+  return variants.some(variant =>
+    new RegExp(`(?<![a-z0-9])(?<![a-z0-9]\\.)${escapeRegExp(variant)}(?![a-z0-9])`).test(lower),
+  );
+}
+
+/**
+ * Every distinct skill on the CV, technical categories first.
+ */
+export function collectSkills(cv: CVData): SkillKeyword[] {
+  const byKey = new Map<string, SkillKeyword>();
+  const names = [
+    ...cv.skills.technical.flatMap(category => category.skills),
+    ...cv.experience.flatMap(exp => exp.skills),
+  ];
+
+  for (const name of names) {
+    const key = skillKey(name);
+    const existing = byKey.get(key);
+    if (existing) {
+      for (const variant of skillVariants(name)) {
+        if (!existing.variants.includes(variant)) existing.variants.push(variant);
+      }
+    } else {
+      byKey.set(key, { name, variants: [...new Set(skillVariants(name))] });
+    }
+  }
+  return [...byKey.values()];
+}
+
+/**
+ * Every free-text field of the CV with its path and a readable label.
+ */
+export function cvTextFields(cv: CVData): (KeywordLocation & { text: string })[] {
+  const fields: (KeywordLocation & { text: string })[] = [
+    { path: '$.personal.title', label: 'Title', text: cv.personal.title },
+    { path: '$.summary', label: 'Summary', text: cv.summary },
+  ];
+
+  cv.experience.forEach((exp, i) => {
+    const label = `Experience > ${exp.title}, ${exp.company}`;
+    fields.push({ path: `$.experience[${i}].title`, label, text: exp.title });
+    fields.push({ path: `$.experience[${i}].description`, label, text: exp.description });
+    exp.achievements.forEach((achievement, j) => {
+      fields.push({ path: `$.experience[${i}].achievements[${j}]`, label: `${label} (achievement ${j + 1})`, text: achievement });
+    });
+    exp.skills.forEach((skill, j) => {
+      fields.push({ path: `$.experience[${i}].skills[${j}]`, label: `${label} (skills)`, text: skill });
+    });
+  });
+
+  cv.skills.technical.forEach((category, i) => {
+    category.skills.forEach((skill, j) => {
+      fields.push({ path: `$.skills.technical[${i}].skills[${j}]`, label: `Skills > ${category.category}`, text: skill });
+    });
+  });
+
+  cv.education.forEach((edu, i) => {
+    const label = `Education > ${edu.degree}`;
+    if (edu.description) fields.push({ path: `$.education[${i}].description`, label, text: edu.description });
+    edu.achievements?.forEach((achievement, j) => {
+      fields.push({ path: `$.education[${i}].achievements[${j}]`, label, text: achievement });
+    });
+  });
+
+  cv.projects?.forEach((proj, i) => {
+    const label = `Projects > ${proj.name}`;
+    fields.push({ path: `$.projects[${i}].description`, label, text: proj.description });
+    proj.highlights.forEach((highlight, j) => {
+      fields.push({ path: `$.projects[${i}].highlights[${j}]`, label, text: highlight });
+    });
+    proj.technologies.forEach((technology, j) => {
+      fields.push({ path: `$.projects[${i}].technologies[${j}]`, label: `${label} (technologies)`, text: technology });
+    });
+  });
+
+  cv.certifications?.forEach((cert, i) => {
+    fields.push({ path: `$.certifications[${i}].name`, label: `Certifications > ${cert.name}`, text: cert.name });
+  });
+
+  return fields;
+}
+
+/**
+ * Which CV skills a job description asks for, and where each one shows up
+ * on the CV. Locations are de-duplicated by label, in CV order.
+ */
+export function keywordCoverage(cv: CVData, jobDescription: string): KeywordCoverage {
+  const fields = cvTextFields(cv);
+  const matched: KeywordMatch[] = [];
+  const missing: string[] = [];
+
+  for (const skill of collectSkills(cv)) {
+    if (!containsKeyword(jobDescription, skill.variants)) {
+      missing.push(skill.name);
+      continue;
+    }
+
+    const locations: KeywordLocation[] = [];
+    for (const field of fields) {
+      if (containsKeyword(field.text, skill.variants) && !locations.some(loc => loc.label === field.label)) {
+        locations.push({ path: field.path, label: field.label });
+      }
+    }
+    matched.push({ skill: skill.name, locations });
+  }
+
+  return { matched, missing };
+}
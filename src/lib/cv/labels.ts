@@ -0,0 +1,147 @@
+import type { Language } from '../../types/cv';
+import { DEFAULT_LOCALE, languageOf } from './i18n';
+
+/**
+ * The fixed wording of a CV around its data: section headings, field
+ * labels, "Present" for ongoing dates and durations. Shared by the /cv
+ * pages and every exporter.
+ */
+export interface CVLabels {
+  summary: string;
+  professionalSummary: string;
+  keyAchievements: string;
+  experience: string;
+  workExperience: string;
+  skills: string;
+  softSkills: string;
+  expertise: string;
+  technologies: string;
+  highlights: string;
+  education: string;
+  projects: string;
+  certifications: string;
+  languages: string;
+  credentialId: string;
+  /** Precedes a certification's date: "Issued 2023-05" */
+  issued: string;
+  email: string;
+  phone: string;
+  website: string;
+  /** Joins a role and its company: "Tech Lead at Acme" */
+  at: string;
+  present: string;
+  year: string;
+  years: string;
+  month: string;
+  months: string;
+  proficiency: Record<Language['proficiency'], string>;
+  // Links and buttons on the /cv pages
+  viewCredential: string;
+  liveLink: string;
+  codeLink: string;
+  downloadPdf: string;
+  letterPdf: string;
+  /** The language's own name, for switching to it */
+  languageName: string;
+}
+
+export const CV_LABELS: Record<string, CVLabels> = {
+  en: {
+    summary: 'Summary',
+    professionalSummary: 'Professional Summary',
+    keyAchievements: 'Key Achievements',
+    experience: 'Experience',
+    workExperience: 'Work Experience',
+    skills: 'Skills',
+    softSkills: 'Soft Skills',
+    expertise: 'Core Expertise',
+    technologies: 'Technologies',
+    highlights: 'Highlights',
+    education: 'Education',
+    projects: 'Projects',
+    certifications: 'Certifications',
+    languages: 'Languages',
+    credentialId: 'Credential ID',
+    issued: 'Issued',
+    email: 'Email',
+    phone: 'Phone',
+    website: 'Website',
+    at: 'at',
+    present: 'Present',
+    year: 'year',
+    years: 'years',
+    month: 'month',
+    months: 'months',
+    proficiency: {
+      Native: 'Native',
+      Fluent: 'Fluent',
+      Professional: 'Professional',
+      Intermediate: 'Intermediate',
+      Basic: 'Basic',
+    },
+    viewCredential: 'View Credential',
+    liveLink: 'Live',
+    codeLink: 'Code',
+    downloadPdf: 'Download PDF',
+    letterPdf: 'US Letter',
+    languageName: 'English',
+  },
+  pt: {
+    summary: 'Resumo',
+    professionalSummary: 'Resumo Profissional',
+    keyAchievements: 'Principais Conquistas',
+    experience: 'Experiência',
+    workExperience: 'Experiência Profissional',
+    skills: 'Competências',
+    softSkills: 'Competências Interpessoais',
+    expertise: 'Competências-Chave',
+    technologies: 'Tecnologias',
+    highlights: 'Destaques',
+    education: 'Formação',
+    projects: 'Projetos',
+    certifications: 'Certificações',
+    languages: 'Línguas',
+    credentialId: 'ID da credencial',
+    issued: 'Emitido em',
+    email: 'Email',
+    phone: 'Telefone',
+    website: 'Website',
+    at: 'em',
+    present: 'Atual',
+    year: 'ano',
+    years: 'anos',
+    month: 'mês',
+    months: 'meses',
+    proficiency: {
+      Native: 'Nativo',
+      Fluent: 'Fluente',
+      Professional: 'Profissional',
+      Intermediate: 'Intermédio',
+      Basic: 'Básico',
+    },
+    viewCredential: 'Ver credencial',
+    liveLink: 'Site',
+    codeLink: 'Código',
+    downloadPdf: 'Descarregar PDF',
+    letterPdf: 'Carta (EUA)',
+    languageName: 'Português',
+  },
+};
+
+/**
+ * The labels for a locale: the exact locale, then its language, then
+ * English.
+ */
+export function cvLabels(locale: string = DEFAULT_LOCALE): CVLabels {
+  return CV_LABELS[locale] ?? CV_LABELS[languageOf(locale)] ?? CV_LABELS[DEFAULT_LOCALE];
+}
+
+/**
+ * Whether a heading names a section in any language, e.g. "Work
+ * Experience" or "Experiência Profissional" for `experience`. For reading
+ * back markdown whose locale isn't known.
+ */
+export function isSectionHeading(heading: string, section: Exclude<keyof CVLabels, 'proficiency'>): boolean {
+  const text = heading.toLowerCase();
+  return Object.values(CV_LABELS).some(labels => text.includes(labels[section].toLowerCase()));
+}
@@ -0,0 +1,189 @@
+import type { CVData } from '../../types/cv';
+import { formatDate } from './format';
+import { DEFAULT_LOCALE, languageOf } from './i18n';
+import { cvLabels } from './labels';
+
+/**
+ * moderncv LaTeX export, for academic and conference applications. The
+ * output is plain text so it can be diffed and checked against the golden
+ * file in tests/golden/.
+ */
+
+/** babel options for hyphenation, by language */
+const BABEL_LANGUAGES: Record<string, string> = {
+  en: 'english',
+  pt: 'portuguese',
+};
+
+const LATEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '%': '\\%',
+  '&': '\\&',
+  '#': '\\#',
+  '_': '\\_',
+  '$': '\\$',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+/**
+ * Escape LaTeX special characters in free text.
+ */
+export function escapeLatex(text: string): string {
+  return text.replace(/[\\{}%&#_$~^]/g, char => LATEX_ESCAPES[char]);
+}
+
+/**
+ * URLs go through \href / \homepage verbatim apart from the characters
+ * that would still break the argument.
+ */
+function escapeUrl(url: string): string {
+  return url.replace(/[%#\\{}]/g, char => `\\${char}`);
+}
+
+function dateRange(start: string, end: string | null, locale: string): string {
+  return `${formatDate(start, locale)} -- ${formatDate(end, locale)}`;
+}
+
+function itemize(items: string[]): string {
+  if (items.length === 0) return '';
+  return [
+    '\\begin{itemize}',
+    ...items.map(item => `  \\item ${escapeLatex(item)}`),
+    '\\end{itemize}',
+  ].join('\n');
+}
+
+/** Last path segment of a profile URL, e.g. the GitHub username. */
+function handle(url: string): string {
+  return new URL(url).pathname.split('/').filter(Boolean).pop() ?? url;
+}
+
+export interface LatexOptions {
+  /** Locale the CV data was localized to; picks labels, dates and hyphenation */
+  locale?: string;
+  /** moderncv's color1 (accents) and color2 (secondary text), as hex */
+  colors?: { accent: string; secondary: string };
+}
+
+export function exportToLatex(cv: CVData, options: LatexOptions = {}): string {
+  const { locale = DEFAULT_LOCALE, colors } = options;
+  const labels = cvLabels(locale);
+  const babel = BABEL_LANGUAGES[languageOf(locale)];
+  const lines: string[] = [];
+  const nameParts = cv.personal.name.trim().split(/\s+/);
+  const lastName = nameParts.length > 1 ? nameParts.pop()! : '';
+  const firstName = nameParts.join(' ');
+
+  // Preamble
+  lines.push('\\documentclass[11pt,a4paper,sans]{moderncv}');
+  lines.push('\\moderncvstyle{classic}');
+  lines.push('\\moderncvcolor{grey}');
+  if (colors) {
+    lines.push(`\\definecolor{color1}{HTML}{${colors.accent.replace('#', '')}}`);
+    lines.push(`\\definecolor{color2}{HTML}{${colors.secondary.replace('#', '')}}`);
+  }
+  lines.push('\\usepackage[utf8]{inputenc}');
+  if (babel) lines.push(`\\usepackage[${babel}]{babel}`);
+  lines.push('\\usepackage[scale=0.8]{geometry}');
+  lines.push('');
+  lines.push(`\\name{${escapeLatex(firstName)}}{${escapeLatex(lastName)}}`);
+  lines.push(`\\title{${escapeLatex(cv.personal.title)}}`);
+  lines.push(`\\address{${escapeLatex(cv.personal.location)}}{}{}`);
+  if (cv.personal.phone) lines.push(`\\phone[mobile]{${escapeLatex(cv.personal.phone)}}`);
+  lines.push(`\\email{${escapeLatex(cv.personal.email)}}`);
+  if (cv.personal.website) lines.push(`\\homepage{${escapeUrl(cv.personal.website.replace(/^https?:\/\//, ''))}}`);
+  if (cv.personal.linkedin) lines.push(`\\social[linkedin]{${escapeLatex(handle(cv.personal.linkedin))}}`);
+  if (cv.personal.github) lines.push(`\\social[github]{${escapeLatex(handle(cv.personal.github))}}`);
+  lines.push('');
+  lines.push('\\begin{document}');
+  lines.push('\\makecvtitle');
+  lines.push('');
+
+  // Summary
+  lines.push(`\\section{${escapeLatex(labels.summary)}}`);
+  lines.push(`\\cvitem{}{${escapeLatex(cv.summary)}}`);
+  lines.push('');
+
+  // Experience
+  lines.push(`\\section{${escapeLatex(labels.experience)}}`);
+  for (const exp of cv.experience) {
+    const details = [escapeLatex(exp.description), itemize(exp.achievements)];
+    if (exp.skills.length > 0) {
+      details.push(`\\textit{${escapeLatex(labels.technologies)}: ${escapeLatex(exp.skills.join(', '))}}`);
+    }
+    lines.push(
+      `\\cventry{${dateRange(exp.startDate, exp.endDate, locale)}}{${escapeLatex(exp.title)}}{${escapeLatex(exp.company)}}{${escapeLatex(exp.location)}}{}{%`,
+    );
+    lines.push(details.filter(Boolean).join('\n'));
+    lines.push('}');
+  }
+  lines.push('');
+
+  // Education
+  lines.push(`\\section{${escapeLatex(labels.education)}}`);
+  for (const edu of cv.education) {
+    const details = [edu.description ? escapeLatex(edu.description) : '', itemize(edu.achievements ?? [])];
+    lines.push(
+      `\\cventry{${dateRange(edu.startDate, edu.endDate, locale)}}{${escapeLatex(edu.degree)}}{${escapeLatex(edu.institution)}}{${escapeLatex(edu.location)}}{}{${details.filter(Boolean).join('\n')}}`,
+    );
+  }
+  lines.push('');
+
+  // Skills
+  lines.push(`\\section{${escapeLatex(labels.skills)}}`);
+  for (const category of cv.skills.technical) {
+    lines.push(`\\cvitem{${escapeLatex(category.category)}}{${escapeLatex(category.skills.join(', '))}}`);
+  }
+  if (cv.skills.soft && cv.skills.soft.length > 0) {
+    lines.push(`\\cvitem{${escapeLatex(labels.softSkills)}}{${escapeLatex(cv.skills.soft.join(', '))}}`);
+  }
+  lines.push('');
+
+  // Projects (if any visible)
+  if (cv.projects && cv.projects.length > 0) {
+    lines.push(`\\section{${escapeLatex(labels.projects)}}`);
+    for (const proj of cv.projects) {
+      const dates = proj.startDate ? dateRange(proj.startDate, proj.endDate ?? null, locale) : '';
+      const link = proj.url ?? proj.github;
+      const details = [escapeLatex(proj.description), itemize(proj.highlights)];
+      if (proj.technologies.length > 0) {
+        details.push(`\\textit{${escapeLatex(labels.technologies)}: ${escapeLatex(proj.technologies.join(', '))}}`);
+      }
+      lines.push(
+        `\\cventry{${dates}}{${escapeLatex(proj.name)}}{${link ? `\\href{${escapeUrl(link)}}{${escapeLatex(link.replace(/^https?:\/\/(www\.)?/, ''))}}` : ''}}{}{}{%`,
+      );
+      lines.push(details.filter(Boolean).join('\n'));
+      lines.push('}');
+    }
+    lines.push('');
+  }
+
+  // Certifications (if any visible)
+  if (cv.certifications && cv.certifications.length > 0) {
+    lines.push(`\\section{${escapeLatex(labels.certifications)}}`);
+    for (const cert of cv.certifications) {
+      const details = [escapeLatex(cert.issuer)];
+      if (cert.credentialId) details.push(`${escapeLatex(labels.credentialId)}: ${escapeLatex(cert.credentialId)}`);
+      const name = cert.url
+        ? `\\href{${escapeUrl(cert.url)}}{${escapeLatex(cert.name)}}`
+        : escapeLatex(cert.name);
+      lines.push(`\\cvitem{${formatDate(cert.date, locale)}}{${name}, ${details.join(', ')}}`);
+    }
+    lines.push('');
+  }
+
+  // Languages
+  if (cv.languages && cv.languages.length > 0) {
+    lines.push(`\\section{${escapeLatex(labels.languages)}}`);
+    for (const lang of cv.languages) {
+      lines.push(`\\cvitemwithcomment{${escapeLatex(lang.name)}}{${escapeLatex(labels.proficiency[lang.proficiency])}}{}`);
+    }
+    lines.push('');
+  }
+
+  lines.push('\\end{document}');
+  return lines.join('\n') + '\n';
+}
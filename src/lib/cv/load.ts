@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { CVData, CVSource } from '../../types/cv';
+import { DEFAULT_LOCALE } from './i18n';
+import { parseCV, parseCVSource } from './schema';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const CV_JSON_PATH = path.join(__dirname, '..', '..', 'data', 'cv.json');
+
+function readCVJson(filePath: string): unknown {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`CV JSON not found at ${filePath}`);
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Read and check cv.json from disk, in the given locale. Intended for the
+ * scripts in `scripts/`; Astro pages import the JSON directly and pass it
+ * through `parseCV`.
+ */
+export function loadCV(filePath: string = CV_JSON_PATH, locale: string = DEFAULT_LOCALE): CVData {
+  return parseCV(readCVJson(filePath), locale);
+}
+
+/**
+ * Read and check cv.json with every translation kept.
+ */
+export function loadCVSource(filePath: string = CV_JSON_PATH): CVSource {
+  return parseCVSource(readCVJson(filePath));
+}
+
+/** Keys whose string arrays cv.json keeps on a single line. */
+const INLINE_ARRAY_KEYS = ['skills', 'technologies', 'visibility'];
+
+/**
+ * Serialize CV data the way cv.json is formatted by hand: two-space indent,
+ * with short tag-like lists (skills, technologies, visibility) kept inline
+ * so rewrites don't churn the whole file.
+ */
+export function stringifyCV(cv: CVSource): string {
+  const json = JSON.stringify(cv, null, 2);
+  const pattern = new RegExp(`("(?:${INLINE_ARRAY_KEYS.join('|')})": )\\[\\n((?:\\s*"(?:[^"\\\\]|\\\\.)*",?\\n)+)\\s*\\]`, 'g');
+  return json.replace(pattern, (_, key: string, items: string) => {
+    const values = items.trim().split('\n').map(line => line.trim().replace(/,$/, ''));
+    return `${key}[${values.join(', ')}]`;
+  }) + '\n';
+}
+
+/**
+ * Check and write CV data to disk, refusing to write anything invalid.
+ * Translations are written as given; see `keepTranslations` for carrying
+ * them over to English-only data.
+ */
+export function saveCV(cv: CVSource, filePath: string = CV_JSON_PATH): void {
+  fs.writeFileSync(filePath, stringifyCV(parseCVSource(cv)));
+}
@@ -0,0 +1,149 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'astro/zod';
+import type { CVData, CVProfile, CVProfiles } from '../../types/cv';
+import { DEFAULT_LOCALE, localizeText } from './i18n';
+import { CVDataError, localizedString, toJsonPath } from './schema';
+import type { CVIssue } from './schema';
+import { collectVisibilityTags, filterCV } from './visibility';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const PROFILES_JSON_PATH = path.join(__dirname, '..', '..', 'data', 'profiles.json');
+
+const profileSchema: z.ZodType<CVProfile> = z.object({
+  description: z.string().optional(),
+  tags: z.array(z.string()),
+  title: localizedString.optional(),
+  summary: localizedString.optional(),
+  skillOrder: z.array(z.string()).optional(),
+  maxExperience: z.number().int().positive().optional(),
+});
+
+const profilesSchema: z.ZodType<CVProfiles> = z.record(
+  z.string().regex(/^[a-z0-9-]+$/, 'Profile names must be lowercase kebab-case'),
+  profileSchema,
+);
+
+export type ProfilesValidationResult =
+  | { success: true; data: CVProfiles }
+  | { success: false; issues: CVIssue[] };
+
+/**
+ * Check profiles.json. When the CV is given, `skillOrder` entries are also
+ * checked against its skill categories.
+ */
+export function validateProfiles(data: unknown, cv?: CVData): ProfilesValidationResult {
+  const result = profilesSchema.safeParse(data);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map(issue => ({ path: toJsonPath(issue.path), message: issue.message })),
+    };
+  }
+
+  const issues: CVIssue[] = [];
+  if (cv) {
+    const categories = cv.skills.technical.map(category => category.category);
+    for (const [name, profile] of Object.entries(result.data)) {
+      profile.skillOrder?.forEach((category, index) => {
+        if (!categories.includes(category)) {
+          issues.push({
+            path: toJsonPath([name, 'skillOrder', index]),
+            message: `Unknown skill category "${category}"`,
+          });
+        }
+      });
+    }
+  }
+
+  return issues.length > 0 ? { success: false, issues } : { success: true, data: result.data };
+}
+
+/**
+ * Profile tags that no CV entry carries, so they select nothing. Usually a
+ * typo, or a tag that was never added to cv.json. `all` and `hidden` are
+ * built in and always count as used.
+ */
+export function unusedProfileTags(profiles: CVProfiles, cv: CVData): CVIssue[] {
+  const used = new Set(['all', 'hidden', ...collectVisibilityTags(cv)]);
+  const issues: CVIssue[] = [];
+  for (const [name, profile] of Object.entries(profiles)) {
+    profile.tags.forEach((tag, index) => {
+      const bare = tag.startsWith('!') ? tag.slice(1) : tag;
+      if (!used.has(bare)) {
+        issues.push({ path: toJsonPath([name, 'tags', index]), message: `No CV entry is tagged "${bare}"` });
+      }
+    });
+  }
+  return issues;
+}
+
+export function parseProfiles(data: unknown, cv?: CVData): CVProfiles {
+  const result = validateProfiles(data, cv);
+  if (!result.success) {
+    throw new CVDataError(result.issues, 'CV profiles');
+  }
+  return result.data;
+}
+
+/**
+ * Read profiles.json from disk. A missing file simply means no profiles.
+ */
+export function loadProfiles(filePath: string = PROFILES_JSON_PATH, cv?: CVData): CVProfiles {
+  if (!fs.existsSync(filePath)) return {};
+  return parseProfiles(JSON.parse(fs.readFileSync(filePath, 'utf-8')), cv);
+}
+
+/**
+ * Turn a `--profile` argument into a profile: a known profile name wins,
+ * anything else is read as a comma-separated list of visibility tags.
+ */
+export function resolveProfile(name: string | undefined, profiles: CVProfiles): CVProfile {
+  if (!name) return { tags: [] };
+  if (profiles[name]) return profiles[name];
+  return { tags: name.split(',').map(tag => tag.trim()).filter(Boolean) };
+}
+
+export interface ApplyProfileOptions {
+  /** Keep every entry, whatever its visibility; the overrides still apply */
+  includeHidden?: boolean;
+}
+
+/**
+ * Produce the CV variant described by a profile: filter by its tags, apply
+ * the title and summary overrides (in the CV's locale), reorder skill
+ * categories and cap the number of roles.
+ */
+export function applyProfile(
+  cv: CVData,
+  profile: CVProfile,
+  locale: string = DEFAULT_LOCALE,
+  options: ApplyProfileOptions = {},
+): CVData {
+  const filtered = options.includeHidden ? cv : filterCV(cv, profile.tags);
+
+  let technical = filtered.skills.technical;
+  if (profile.skillOrder) {
+    const order = profile.skillOrder;
+    const first = order
+      .map(name => technical.find(category => category.category === name))
+      .filter(category => category !== undefined);
+    const rest = technical.filter(category => !order.includes(category.category));
+    technical = [...first, ...rest];
+  }
+
+  return {
+    ...filtered,
+    personal: profile.title
+      ? { ...filtered.personal, title: localizeText(profile.title, locale) }
+      : filtered.personal,
+    summary: profile.summary ? localizeText(profile.summary, locale) : filtered.summary,
+    experience: profile.maxExperience
+      ? filtered.experience.slice(0, profile.maxExperience)
+      : filtered.experience,
+    skills: { ...filtered.skills, technical },
+  };
+}
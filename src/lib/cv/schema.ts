@@ -0,0 +1,290 @@
+import { z } from 'astro/zod';
+import type {
+  CVData,
+  CVSource,
+  Certification,
+  Education,
+  Experience,
+  KeyAchievement,
+  Language,
+  LocalizedString,
+  PersonalInfo,
+  Project,
+  SkillCategory,
+  Skills,
+} from '../../types/cv';
+import { DEFAULT_LOCALE, LOCALE_PATTERN, localizeCV } from './i18n';
+
+/**
+ * Runtime schemas mirroring the interfaces in `src/types/cv.ts`.
+ *
+ * Each schema is annotated with its interface so the compiler flags any drift
+ * between the declared types and what we actually check at runtime. They
+ * describe cv.json as written, so translatable fields accept LocalizedText.
+ */
+
+/** `YYYY` or `YYYY-MM`, e.g. "2013" or "2025-06" */
+const DATE_PATTERN = /^\d{4}(-(0[1-9]|1[0-2]))?$/;
+
+const date = z.string().regex(DATE_PATTERN, 'Expected a YYYY or YYYY-MM date');
+const url = z.string().url();
+const visibility = z.array(z.string()).optional();
+
+/** A plain string, or translations keyed by locale that include `en` */
+export const localizedString: z.ZodType<LocalizedString> = z.union([
+  z.string(),
+  z.object({ en: z.string() }).catchall(z.string()).superRefine((text, ctx) => {
+    for (const locale of Object.keys(text)) {
+      if (!LOCALE_PATTERN.test(locale)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [locale],
+          message: `"${locale}" is not a locale, e.g. "pt" or "pt-BR"`,
+        });
+      }
+    }
+  }),
+]);
+
+const personalInfoSchema: z.ZodType<PersonalInfo<LocalizedString>> = z.object({
+  name: z.string(),
+  title: localizedString,
+  email: z.string().email(),
+  phone: z.string().optional(),
+  location: z.string(),
+  website: url.optional(),
+  linkedin: url.optional(),
+  github: url.optional(),
+});
+
+const keyAchievementSchema: z.ZodType<KeyAchievement<LocalizedString>> = z.object({
+  title: localizedString,
+  description: localizedString,
+});
+
+const experienceSchema: z.ZodType<Experience<LocalizedString>> = z.object({
+  id: z.string(),
+  title: localizedString,
+  company: z.string(),
+  location: z.string(),
+  startDate: date,
+  endDate: date.nullable(),
+  description: localizedString,
+  achievements: z.array(localizedString),
+  skills: z.array(z.string()),
+  visibility,
+  allowOverlap: z.boolean().optional(),
+});
+
+const skillCategorySchema: z.ZodType<SkillCategory> = z.object({
+  category: z.string(),
+  skills: z.array(z.string()),
+  visibility,
+});
+
+const skillsSchema: z.ZodType<Skills> = z.object({
+  technical: z.array(skillCategorySchema),
+  soft: z.array(z.string()).optional(),
+});
+
+const educationSchema: z.ZodType<Education<LocalizedString>> = z.object({
+  id: z.string(),
+  degree: z.string(),
+  institution: z.string(),
+  location: z.string(),
+  startDate: date,
+  endDate: date.nullable(),
+  description: localizedString.optional(),
+  achievements: z.array(localizedString).optional(),
+  visibility,
+});
+
+const projectSchema: z.ZodType<Project<LocalizedString>> = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: localizedString,
+  url: url.optional(),
+  github: url.optional(),
+  startDate: date.optional(),
+  endDate: date.nullable().optional(),
+  technologies: z.array(z.string()),
+  highlights: z.array(localizedString),
+  visibility,
+});
+
+const certificationSchema: z.ZodType<Certification> = z.object({
+  id: z.string(),
+  name: z.string(),
+  issuer: z.string(),
+  date,
+  credentialId: z.string().optional(),
+  url: url.optional(),
+  visibility,
+});
+
+const languageSchema: z.ZodType<Language> = z.object({
+  name: z.string(),
+  proficiency: z.enum(['Native', 'Fluent', 'Professional', 'Intermediate', 'Basic']),
+});
+
+/**
+ * Compare two YYYY / YYYY-MM dates at the coarser of their precisions,
+ * so "2013" vs "2013-05" counts as equal rather than out of order.
+ */
+function compareDates(a: string, b: string): number {
+  if (a.length !== b.length) {
+    return compareDates(a.slice(0, 4), b.slice(0, 4));
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+interface Dated {
+  id?: unknown;
+  startDate?: unknown;
+  endDate?: unknown;
+  allowOverlap?: unknown;
+}
+
+export type IssuePath = (string | number)[];
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value);
+}
+
+function asEntries(value: unknown): Dated[] {
+  return Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : [];
+}
+
+/**
+ * Cross-field rules that a per-field schema can't express: date ranges,
+ * unique IDs across every section, and at most one current role.
+ *
+ * Runs on the raw data so these issues are reported alongside field-level
+ * ones instead of only after the whole file is otherwise valid.
+ */
+function crossFieldIssues(data: unknown): { path: IssuePath; message: string }[] {
+  if (!data || typeof data !== 'object') return [];
+  const cv = data as Record<string, unknown>;
+  const issues: { path: IssuePath; message: string }[] = [];
+
+  const seenIds = new Map<string, string>();
+  for (const section of ['experience', 'education', 'projects', 'certifications']) {
+    asEntries(cv[section]).forEach((item, index) => {
+      if (isDate(item.startDate) && isDate(item.endDate) && compareDates(item.endDate, item.startDate) < 0) {
+        issues.push({
+          path: [section, index, 'endDate'],
+          message: `endDate ${item.endDate} is before startDate ${item.startDate}`,
+        });
+      }
+
+      if (typeof item.id !== 'string') return;
+      const previous = seenIds.get(item.id);
+      if (previous) {
+        issues.push({
+          path: [section, index, 'id'],
+          message: `Duplicate id "${item.id}" (already used by ${previous})`,
+        });
+      } else {
+        seenIds.set(item.id, `${section}[${index}]`);
+      }
+    });
+  }
+
+  const currentRoles = asEntries(cv.experience)
+    .map((exp, index) => ({ exp, index }))
+    .filter(({ exp }) => exp.endDate === null && exp.allowOverlap !== true);
+  for (const { exp, index } of currentRoles.slice(1)) {
+    issues.push({
+      path: ['experience', index, 'endDate'],
+      message: `"${exp.id}" is a second current role (${currentRoles[0].exp.id} has no endDate either); set "allowOverlap": true if both are ongoing`,
+    });
+  }
+
+  return issues;
+}
+
+const cvObjectSchema = z.object({
+  personal: personalInfoSchema,
+  summary: localizedString,
+  keyAchievements: z.array(keyAchievementSchema).optional(),
+  experience: z.array(experienceSchema),
+  skills: skillsSchema,
+  education: z.array(educationSchema),
+  projects: z.array(projectSchema).optional(),
+  certifications: z.array(certificationSchema).optional(),
+  languages: z.array(languageSchema).optional(),
+});
+
+export const cvSchema: z.ZodType<CVSource> = cvObjectSchema.superRefine((cv, ctx) => {
+  for (const issue of crossFieldIssues(cv)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, ...issue });
+  }
+});
+
+export interface CVIssue {
+  /** JSON path of the offending value, e.g. `$.experience[2].startDate` */
+  path: string;
+  message: string;
+}
+
+export type CVValidationResult =
+  | { success: true; data: CVData; source: CVSource }
+  | { success: false; issues: CVIssue[] };
+
+export function toJsonPath(path: IssuePath): string {
+  return path.reduce<string>(
+    (acc, key) => (typeof key === 'number' ? `${acc}[${key}]` : `${acc}.${key}`),
+    '$',
+  );
+}
+
+export class CVDataError extends Error {
+  issues: CVIssue[];
+
+  constructor(issues: CVIssue[], subject = 'CV data') {
+    const details = issues.map(issue => `  - ${issue.path}: ${issue.message}`).join('\n');
+    super(`Invalid ${subject}:\n${details}`);
+    this.name = 'CVDataError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Check an arbitrary value (usually parsed cv.json) against the CV model,
+ * collecting every issue rather than stopping at the first. On success,
+ * `data` is the CV in the given locale and `source` the data as written.
+ */
+export function validateCV(data: unknown, locale: string = DEFAULT_LOCALE): CVValidationResult {
+  const result = cvObjectSchema.safeParse(data);
+  const issues = [
+    ...(result.success ? [] : result.error.issues),
+    ...crossFieldIssues(data),
+  ].map(issue => ({ path: toJsonPath(issue.path), message: issue.message }));
+
+  if (result.success && issues.length === 0) {
+    return { success: true, data: localizeCV(result.data, locale), source: result.data };
+  }
+  return { success: false, issues };
+}
+
+/**
+ * Like `validateCV`, but throws a CVDataError listing every issue.
+ */
+export function parseCV(data: unknown, locale: string = DEFAULT_LOCALE): CVData {
+  const result = validateCV(data, locale);
+  if (!result.success) {
+    throw new CVDataError(result.issues);
+  }
+  return result.data;
+}
+
+/**
+ * Like `parseCV`, but keeps every translation: the data as cv.json holds it.
+ */
+export function parseCVSource(data: unknown): CVSource {
+  const result = validateCV(data);
+  if (!result.success) {
+    throw new CVDataError(result.issues);
+  }
+  return result.source;
+}
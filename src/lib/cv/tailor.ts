@@ -0,0 +1,403 @@
+import type { CVData, Experience, Project, SkillCategory } from '../../types/cv';
+import { collectSkills, containsKeyword } from './keywords';
+
+/**
+ * Job-description-driven tailoring.
+ *
+ * Deterministic and local: the job description is turned into weighted
+ * terms (CV skills, synonym groups and plain words), every achievement,
+ * project highlight and skill is scored by the terms it mentions, and the
+ * CV is reordered and pruned until its estimated length fits the page
+ * budget. The same input always produces the same CV.
+ */
+
+/**
+ * Spellings and near-synonyms treated as one term. The first entry names
+ * the group in explanations.
+ */
+export const SYNONYMS: string[][] = [
+  ['react', 'react.js', 'reactjs'],
+  ['next.js', 'nextjs'],
+  ['node.js', 'nodejs', 'node'],
+  ['vue', 'vue.js', 'vuejs'],
+  ['javascript', 'js', 'es6', 'ecmascript'],
+  ['typescript', 'ts'],
+  ['css', 'css3'],
+  ['sass', 'scss'],
+  ['testing', 'tests', 'test automation', 'unit testing', 'integration testing', 'tdd'],
+  ['e2e', 'end-to-end', 'playwright', 'cypress'],
+  ['ci/cd', 'continuous integration', 'continuous delivery', 'continuous deployment', 'pipelines'],
+  ['micro-frontends', 'micro-frontend', 'microfrontends', 'micro frontends'],
+  ['web components', 'lit', 'custom elements'],
+  ['performance', 'core web vitals', 'web vitals', 'lighthouse', 'page speed'],
+  ['accessibility', 'a11y', 'wcag'],
+  ['state management', 'redux', 'zustand', 'mobx'],
+  ['leadership', 'team lead', 'team leadership', 'tech lead', 'lead'],
+  ['mentoring', 'mentor', 'mentored', 'coaching'],
+  ['architecture', 'system design', 'architected'],
+  ['ai', 'llm', 'llms', 'machine learning', 'artificial intelligence', 'langchain', 'genai'],
+  ['web3', 'blockchain', 'decentralized', 'crypto'],
+  ['aws', 'amazon web services'],
+  ['kubernetes', 'k8s'],
+  ['remote', 'distributed teams', 'async'],
+  ['agile', 'scrum', 'kanban'],
+];
+
+/** Words too common in job ads to say anything about the role. */
+const STOPWORDS = new Set([
+  'about', 'across', 'also', 'and', 'any', 'are', 'as', 'able', 'ability', 'based', 'being', 'best',
+  'both', 'but', 'can', 'candidate', 'company', 'day', 'etc', 'every', 'experience', 'for', 'from',
+  'good', 'great', 'have', 'help', 'how', 'ideal', 'including', 'into', 'its', 'join', 'just',
+  'knowledge', 'like', 'looking', 'make', 'more', 'most', 'must', 'new', 'nice', 'not', 'our', 'out',
+  'own', 'plus', 'preferred', 'required', 'requirements', 'responsibilities', 'role', 'should',
+  'skills', 'strong', 'such', 'than', 'that', 'the', 'their', 'them', 'there', 'they', 'this',
+  'through', 'using', 'want', 'well', 'what', 'who', 'will', 'with', 'within', 'work', 'working',
+  'year', 'years', 'you', 'your',
+]);
+
+export interface JobTerm {
+  /** Name used in explanations */
+  term: string;
+  /** Phrases searched for as whole words; for word terms, the word stem */
+  variants: string[];
+  /** Skills and synonym groups outweigh incidental words */
+  weight: number;
+  kind: 'phrase' | 'word';
+}
+
+export interface TailorOptions {
+  /** Page budget for the tailored CV (default 2) */
+  pages?: number;
+  /** Estimated printed lines per page (default 58) */
+  linesPerPage?: number;
+  /** Estimated characters per printed line (default 110) */
+  charsPerLine?: number;
+  /** Most achievements kept per role (default 4) */
+  maxAchievements?: number;
+  /** Most recent roles that are never dropped (default 3) */
+  minExperience?: number;
+}
+
+export interface TailorDecision {
+  kind: 'experience' | 'achievement' | 'project' | 'highlight' | 'skill-category';
+  /** ID of the role or project, also set on its achievements and highlights */
+  id?: string;
+  /** Where the item sits, e.g. "Frontend Team Lead, PrimeIT" */
+  label: string;
+  text: string;
+  kept: boolean;
+  score: number;
+  matched: string[];
+  reason: string;
+}
+
+export interface TailorResult {
+  cv: CVData;
+  terms: JobTerm[];
+  decisions: TailorDecision[];
+  /** Estimated length of the tailored CV, in pages */
+  estimatedPages: number;
+}
+
+const PHRASE_WEIGHT = 3;
+const WORD_WEIGHT = 1;
+
+function stem(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z][a-z0-9+#]*/g) ?? [];
+}
+
+/**
+ * Terms the job description asks for: every synonym group and CV skill it
+ * mentions, then the remaining meaningful words.
+ */
+export function extractJobTerms(cv: CVData, jobDescription: string): JobTerm[] {
+  const terms: JobTerm[] = [];
+  const overlaps = (variants: string[]) =>
+    terms.find(term => term.variants.some(variant => variants.includes(variant)));
+
+  for (const group of SYNONYMS) {
+    if (containsKeyword(jobDescription, group)) {
+      terms.push({ term: group[0], variants: [...group], weight: PHRASE_WEIGHT, kind: 'phrase' });
+    }
+  }
+
+  for (const skill of collectSkills(cv)) {
+    if (!containsKeyword(jobDescription, skill.variants)) continue;
+    const existing = overlaps(skill.variants);
+    if (existing) {
+      for (const variant of skill.variants) {
+        if (!existing.variants.includes(variant)) existing.variants.push(variant);
+      }
+    } else {
+      terms.push({ term: skill.name, variants: [...skill.variants], weight: PHRASE_WEIGHT, kind: 'phrase' });
+    }
+  }
+
+  const covered = new Set(terms.flatMap(term => term.variants.flatMap(words)).map(stem));
+  const seen = new Set<string>();
+  for (const word of words(jobDescription)) {
+    const stemmed = stem(word);
+    if (word.length < 3 || STOPWORDS.has(word) || covered.has(stemmed) || seen.has(stemmed)) continue;
+    seen.add(stemmed);
+    terms.push({ term: word, variants: [stemmed], weight: WORD_WEIGHT, kind: 'word' });
+  }
+
+  return terms;
+}
+
+/**
+ * Score a piece of CV text: the summed weight of the job terms it mentions.
+ */
+export function scoreText(text: string, terms: JobTerm[]): { score: number; matched: string[] } {
+  const stems = new Set(words(text).map(stem));
+  const matched = terms.filter(term =>
+    term.kind === 'phrase'
+      ? containsKeyword(text, term.variants)
+      : stems.has(term.variants[0]),
+  );
+  return {
+    score: matched.reduce((total, term) => total + term.weight, 0),
+    matched: matched.map(term => term.term),
+  };
+}
+
+interface ScoredItem {
+  text: string;
+  score: number;
+  matched: string[];
+  dropped?: string;
+}
+
+interface ScoredRole {
+  exp: Experience;
+  score: number;
+  matched: string[];
+  achievements: ScoredItem[];
+  skills: ScoredItem[];
+  dropped?: string;
+}
+
+interface ScoredProject {
+  proj: Project;
+  score: number;
+  matched: string[];
+  highlights: ScoredItem[];
+  dropped?: string;
+}
+
+interface ScoredCategory {
+  category: SkillCategory;
+  score: number;
+  matched: string[];
+  skills: ScoredItem[];
+  dropped?: string;
+}
+
+function scoreItems(texts: string[], terms: JobTerm[]): ScoredItem[] {
+  const items = texts.map(text => ({ text, ...scoreText(text, terms) }));
+  // Array.prototype.sort is stable, so equal scores keep the CV's order
+  return items.sort((a, b) => b.score - a.score);
+}
+
+function combine(...parts: { score: number; matched: string[] }[]): { score: number; matched: string[] } {
+  return {
+    score: parts.reduce((sum, part) => sum + part.score, 0),
+    matched: [...new Set(parts.flatMap(part => part.matched))],
+  };
+}
+
+const kept = (items: ScoredItem[]) => items.filter(item => !item.dropped).map(item => item.text);
+
+function buildCV(
+  cv: CVData,
+  roles: ScoredRole[],
+  projects: ScoredProject[],
+  categories: ScoredCategory[],
+): CVData {
+  return {
+    ...cv,
+    experience: roles
+      .filter(role => !role.dropped)
+      .map(role => ({ ...role.exp, achievements: kept(role.achievements), skills: kept(role.skills) })),
+    projects: cv.projects && projects
+      .filter(project => !project.dropped)
+      .sort((a, b) => b.score - a.score)
+      .map(project => ({ ...project.proj, highlights: kept(project.highlights) })),
+    skills: {
+      ...cv.skills,
+      technical: categories
+        .filter(category => !category.dropped)
+        .map(category => ({ ...category.category, skills: kept(category.skills) })),
+    },
+  };
+}
+
+/**
+ * Rough printed length of a CV in lines, following the section layout of
+ * the PDF templates.
+ */
+export function estimateLines(cv: CVData, charsPerLine = 110): number {
+  const wrap = (text: string) => Math.max(1, Math.ceil(text.length / charsPerLine));
+  const heading = 2;
+  let lines = 4 + heading + wrap(cv.summary);
+
+  lines += heading;
+  for (const exp of cv.experience) {
+    lines += 3 + wrap(exp.description);
+    lines += exp.achievements.reduce((sum, achievement) => sum + wrap(achievement), 0);
+    if (exp.skills.length > 0) lines += wrap(exp.skills.join(', '));
+  }
+
+  lines += heading;
+  for (const category of cv.skills.technical) {
+    lines += wrap(`${category.category}: ${category.skills.join(', ')}`);
+  }
+  if (cv.skills.soft && cv.skills.soft.length > 0) lines += wrap(cv.skills.soft.join(', '));
+
+  lines += heading;
+  for (const edu of cv.education) {
+    lines += 3 + (edu.description ? wrap(edu.description) : 0);
+  }
+
+  if (cv.projects && cv.projects.length > 0) {
+    lines += heading;
+    for (const proj of cv.projects) {
+      lines += 3 + wrap(proj.description);
+      lines += proj.highlights.reduce((sum, highlight) => sum + wrap(highlight), 0);
+    }
+  }
+
+  if (cv.certifications && cv.certifications.length > 0) lines += heading + cv.certifications.length;
+  if (cv.languages && cv.languages.length > 0) lines += heading + cv.languages.length;
+
+  return lines;
+}
+
+/**
+ * Tailor a CV to a job description: reorder achievements, highlights,
+ * skills and skill categories by score, drop skill categories nothing in
+ * the posting asks for, then drop the lowest-scoring content until the CV
+ * fits the page budget. Roles stay in chronological order.
+ */
+export function tailorCV(cv: CVData, jobDescription: string, options: TailorOptions = {}): TailorResult {
+  const {
+    pages = 2,
+    linesPerPage = 58,
+    charsPerLine = 110,
+    maxAchievements = 4,
+    minExperience = 3,
+  } = options;
+  const terms = extractJobTerms(cv, jobDescription);
+
+  const roles: ScoredRole[] = cv.experience.map(exp => {
+    const achievements = scoreItems(exp.achievements, terms);
+    const skills = scoreItems(exp.skills, terms);
+    achievements.slice(maxAchievements).forEach(item => {
+      item.dropped = `only the ${maxAchievements} best-matching achievements are kept per role`;
+    });
+    const own = scoreText(`${exp.title}. ${exp.description}`, terms);
+    return { exp, ...combine(own, ...achievements, ...skills), achievements, skills };
+  });
+
+  const projects: ScoredProject[] = (cv.projects ?? []).map(proj => {
+    const highlights = scoreItems(proj.highlights, terms);
+    const own = scoreText(`${proj.name}. ${proj.description} ${proj.technologies.join(', ')}`, terms);
+    return { proj, ...combine(own, ...highlights), highlights };
+  });
+
+  const categories: ScoredCategory[] = cv.skills.technical
+    .map(category => {
+      const skills = scoreItems(category.skills, terms);
+      return { category, ...combine(...skills), skills };
+    })
+    .sort((a, b) => b.score - a.score);
+  if ((categories[0]?.score ?? 0) > 0) {
+    for (const category of categories) {
+      if (category.score === 0) category.dropped = 'no skill in this category matches the job description';
+    }
+  }
+
+  // Trim to the page budget, lowest score first; on ties, content further
+  // down the CV goes first
+  const budget = pages * linesPerPage;
+  const budgetReason = `lowest score when trimming to ${pages} page${pages === 1 ? '' : 's'}`;
+  let lines = estimateLines(buildCV(cv, roles, projects, categories), charsPerLine);
+
+  while (lines > budget) {
+    const candidates: { score: number; drop: () => void }[] = [];
+    roles.forEach((role, index) => {
+      if (role.dropped) return;
+      const remaining = role.achievements.filter(item => !item.dropped);
+      if (remaining.length > 1) {
+        const last = remaining[remaining.length - 1];
+        candidates.push({ score: last.score, drop: () => { last.dropped = budgetReason; } });
+      }
+      if (index >= minExperience) {
+        candidates.push({ score: role.score, drop: () => { role.dropped = budgetReason; } });
+      }
+    });
+    for (const project of projects) {
+      if (project.dropped) continue;
+      const remaining = project.highlights.filter(item => !item.dropped);
+      if (remaining.length > 1) {
+        const last = remaining[remaining.length - 1];
+        candidates.push({ score: last.score, drop: () => { last.dropped = budgetReason; } });
+      }
+      candidates.push({ score: project.score, drop: () => { project.dropped = budgetReason; } });
+    }
+    if (candidates.length === 0) break;
+
+    const lowest = candidates.reduce((min, candidate) => (candidate.score <= min.score ? candidate : min));
+    lowest.drop();
+    lines = estimateLines(buildCV(cv, roles, projects, categories), charsPerLine);
+  }
+
+  const explain = (item: { score: number; matched: string[]; dropped?: string }) =>
+    item.dropped ??
+    (item.score > 0 ? `matches ${item.matched.join(', ')}` : 'no job keywords, but fits the page budget');
+
+  const decisions: TailorDecision[] = [];
+  for (const role of roles) {
+    const label = `${role.exp.title}, ${role.exp.company}`;
+    decisions.push({
+      kind: 'experience', id: role.exp.id, label, text: label, kept: !role.dropped,
+      score: role.score, matched: role.matched, reason: explain(role),
+    });
+    for (const item of role.achievements) {
+      decisions.push({
+        kind: 'achievement', id: role.exp.id, label, text: item.text, kept: !role.dropped && !item.dropped,
+        score: item.score, matched: item.matched, reason: role.dropped ? 'role dropped' : explain(item),
+      });
+    }
+  }
+  for (const project of projects) {
+    const label = project.proj.name;
+    decisions.push({
+      kind: 'project', id: project.proj.id, label, text: label, kept: !project.dropped,
+      score: project.score, matched: project.matched, reason: explain(project),
+    });
+    for (const item of project.highlights) {
+      decisions.push({
+        kind: 'highlight', id: project.proj.id, label, text: item.text, kept: !project.dropped && !item.dropped,
+        score: item.score, matched: item.matched, reason: project.dropped ? 'project dropped' : explain(item),
+      });
+    }
+  }
+  for (const category of categories) {
+    decisions.push({
+      kind: 'skill-category', label: category.category.category, text: kept(category.skills).join(', '),
+      kept: !category.dropped, score: category.score, matched: category.matched, reason: explain(category),
+    });
+  }
+
+  return {
+    cv: buildCV(cv, roles, projects, categories),
+    terms,
+    decisions,
+    estimatedPages: Math.round((lines / linesPerPage) * 10) / 10,
+  };
+}
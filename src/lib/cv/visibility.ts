@@ -0,0 +1,89 @@
+import type { CVData, VisibilityFilter } from '../../types/cv';
+
+export interface Visible {
+  visibility?: string[];
+}
+
+/**
+ * Whether an entry is shown on the default CV, i.e. isn't hidden.
+ * `includeHidden` bypasses the check entirely.
+ */
+export function isVisible(item: Visible, includeHidden = false): boolean {
+  if (includeHidden) return true;
+  return matchesVisibility(item, []);
+}
+
+/**
+ * Split a tag list such as `senior,frontend,!web3` into tags to include and
+ * tags to exclude. `!` marks an exclusion.
+ */
+export function parseVisibilityTags(tags: VisibilityFilter[]): { include: string[]; exclude: string[] } {
+  const include: string[] = [];
+  const exclude: string[] = [];
+  for (const raw of tags) {
+    const tag = raw.trim();
+    if (!tag) continue;
+    if (tag.startsWith('!')) {
+      exclude.push(tag.slice(1));
+    } else {
+      include.push(tag);
+    }
+  }
+  return { include, exclude };
+}
+
+/**
+ * Include/exclude visibility check:
+ * - an entry carrying any excluded tag is dropped
+ * - an entry sharing a tag with the include list is kept
+ * - `hidden` entries are dropped unless `hidden` is requested explicitly
+ * - otherwise it is kept if it has no visibility list or is tagged `all`,
+ *   or if there are no tags to include: that is the default CV, with
+ *   every entry that isn't hidden
+ *
+ * So a profile's tags pick its entries out of the default CV, and `all`
+ * puts an entry in every profile.
+ */
+export function matchesVisibility(item: Visible, tags: VisibilityFilter[]): boolean {
+  const { include, exclude } = parseVisibilityTags(tags);
+  if (!item.visibility) return true;
+  if (item.visibility.some(tag => exclude.includes(tag))) return false;
+  if (item.visibility.some(tag => include.includes(tag))) return true;
+  if (item.visibility.includes('hidden')) return false;
+  return item.visibility.includes('all') || include.every(tag => tag === 'hidden');
+}
+
+/**
+ * Return a copy of the CV with only the entries matching the given tags.
+ * See `matchesVisibility` for the rules.
+ */
+export function filterCV(cv: CVData, tags: VisibilityFilter[]): CVData {
+  const visible = <T extends Visible>(items: T[]) => items.filter(item => matchesVisibility(item, tags));
+
+  return {
+    ...cv,
+    experience: visible(cv.experience),
+    education: visible(cv.education),
+    projects: cv.projects && visible(cv.projects),
+    certifications: cv.certifications && visible(cv.certifications),
+    skills: { ...cv.skills, technical: visible(cv.skills.technical) },
+  };
+}
+
+/**
+ * Every tag used in the CV's visibility lists, apart from the built-in
+ * `all` and `hidden`. These are the tags worth building filtered pages for.
+ */
+export function collectVisibilityTags(cv: CVData): string[] {
+  const entries: Visible[] = [
+    ...cv.experience,
+    ...cv.education,
+    ...(cv.projects ?? []),
+    ...(cv.certifications ?? []),
+    ...cv.skills.technical,
+  ];
+  const tags = new Set(entries.flatMap(entry => entry.visibility ?? []));
+  tags.delete('all');
+  tags.delete('hidden');
+  return [...tags].sort();
+}
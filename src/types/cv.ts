@@ -1,17 +1,31 @@
-export interface CVData {
-  personal: PersonalInfo;
-  summary: string;
-  experience: Experience[];
+// Text that can be translated: plain English, or English plus translations
+// keyed by locale, e.g. { "en": "Tech Lead", "pt": "Líder Técnico" }
+export type LocalizedString = string | LocalizedText;
+
+export interface LocalizedText {
+  en: string;
+  [locale: string]: string;
+}
+
+// `Text` is `string` once a locale has been picked (see localizeCV);
+// cv.json itself is a CVSource, where translatable fields may be LocalizedText
+export interface CVData<Text = string> {
+  personal: PersonalInfo<Text>;
+  summary: Text;
+  keyAchievements?: KeyAchievement<Text>[];
+  experience: Experience<Text>[];
   skills: Skills;
-  education: Education[];
-  projects?: Project[];
+  education: Education<Text>[];
+  projects?: Project<Text>[];
   certifications?: Certification[];
   languages?: Language[];
 }
 
-export interface PersonalInfo {
+export type CVSource = CVData<LocalizedString>;
+
+export interface PersonalInfo<Text = string> {
   name: string;
-  title: string;
+  title: Text;
   email: string;
   phone?: string;
   location: string;
@@ -20,17 +34,24 @@ export interface PersonalInfo {
   github?: string;
 }
 
-export interface Experience {
+// Headline achievements shown after the summary on the /cv page
+export interface KeyAchievement<Text = string> {
+  title: Text;
+  description: Text;
+}
+
+export interface Experience<Text = string> {
   id: string;
-  title: string;
+  title: Text;
   company: string;
   location: string;
   startDate: string; // YYYY-MM format
   endDate: string | null; // null for current position
-  description: string;
-  achievements: string[];
+  description: Text;
+  achievements: Text[];
   skills: string[];
   visibility?: string[]; // e.g., ["all"], ["senior", "tech-lead"], ["frontend"]
+  allowOverlap?: boolean; // permit another role with a null endDate at the same time
 }
 
 export interface Skills {
@@ -41,30 +62,31 @@ export interface Skills {
 export interface SkillCategory {
   category: string;
   skills: string[];
+  visibility?: string[];
 }
 
-export interface Education {
+export interface Education<Text = string> {
   id: string;
   degree: string;
   institution: string;
   location: string;
   startDate: string;
   endDate: string | null;
-  description?: string;
-  achievements?: string[];
+  description?: Text;
+  achievements?: Text[];
   visibility?: string[];
 }
 
-export interface Project {
+export interface Project<Text = string> {
   id: string;
   name: string;
-  description: string;
+  description: Text;
   url?: string;
   github?: string;
   startDate?: string;
   endDate?: string | null;
   technologies: string[];
-  highlights: string[];
+  highlights: Text[];
   visibility?: string[];
 }
 
@@ -85,3 +107,15 @@ export interface Language {
 
 // Helper type for filtering
 export type VisibilityFilter = "all" | string;
+
+// Named, reusable CV variant (src/data/profiles.json)
+export interface CVProfile {
+  description?: string;
+  tags: VisibilityFilter[]; // passed to filterCV, e.g. ["senior", "!web3"]
+  title?: LocalizedString; // overrides personal.title
+  summary?: LocalizedString; // replaces the default summary
+  skillOrder?: string[]; // SkillCategory.category names to list first, in order
+  maxExperience?: number; // keep only the most recent N roles
+}
+
+export type CVProfiles = Record<string, CVProfile>;
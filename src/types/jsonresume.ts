@@ -0,0 +1,95 @@
+// Subset of the JSON Resume v1.0.0 schema (https://jsonresume.org/schema)
+// covering the sections we map to and from CVData.
+
+export interface JSONResume {
+  $schema?: string;
+  basics?: JSONResumeBasics;
+  work?: JSONResumeWork[];
+  education?: JSONResumeEducation[];
+  projects?: JSONResumeProject[];
+  certificates?: JSONResumeCertificate[];
+  skills?: JSONResumeSkill[];
+  languages?: JSONResumeLanguage[];
+  meta?: {
+    canonical?: string;
+    version?: string;
+    lastModified?: string;
+  };
+  [section: string]: unknown;
+}
+
+export interface JSONResumeBasics {
+  name?: string;
+  label?: string;
+  image?: string;
+  email?: string;
+  phone?: string;
+  url?: string;
+  summary?: string;
+  location?: {
+    address?: string;
+    postalCode?: string;
+    city?: string;
+    countryCode?: string;
+    region?: string;
+  };
+  profiles?: {
+    network?: string;
+    username?: string;
+    url?: string;
+  }[];
+}
+
+export interface JSONResumeWork {
+  name?: string;
+  location?: string;
+  description?: string;
+  position?: string;
+  url?: string;
+  startDate?: string; // ISO 8601: YYYY, YYYY-MM or YYYY-MM-DD
+  endDate?: string; // omitted for current positions
+  summary?: string;
+  highlights?: string[];
+}
+
+export interface JSONResumeEducation {
+  institution?: string;
+  url?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+  score?: string;
+  courses?: string[];
+}
+
+export interface JSONResumeProject {
+  name?: string;
+  startDate?: string;
+  endDate?: string;
+  description?: string;
+  highlights?: string[];
+  url?: string;
+  roles?: string[];
+  entity?: string;
+  type?: string;
+  keywords?: string[];
+}
+
+export interface JSONResumeCertificate {
+  name?: string;
+  date?: string;
+  url?: string;
+  issuer?: string;
+}
+
+export interface JSONResumeSkill {
+  name?: string;
+  level?: string;
+  keywords?: string[];
+}
+
+export interface JSONResumeLanguage {
+  language?: string;
+  fluency?: string;
+}